@@ -1,16 +1,111 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
+import { App, Editor, getFrontMatterInfo, MarkdownView, Modal, normalizePath, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
+import type { MarkdownPostProcessorContext, TFile } from 'obsidian';
 import * as dotenv from 'dotenv';
 import { randomBytes } from 'crypto';
 import FreepikPlugin from './src/plugins/FreepikPlugin';
-import { citationService } from './src/services/citationService';
+import { CITATION_ID_STRATEGY_LABELS, citationService } from './src/services/citationService';
+import type { CitationIdStrategy } from './src/services/citationService';
+import { CitationRegistry } from './src/services/citationRegistry';
+import { llmService, LLMRequestCancelledError, LLMRequestError } from './src/services/llmService';
+import { cancelledMarker, JobTracker } from './src/services/jobTracker';
+import { HistoryStore } from './src/services/historyStore';
+import { measureUsage, UsageStore } from './src/services/usageStore';
+import type { RequestStatus } from './src/services/historyStore';
+import { HistoryModal } from './src/modals/HistoryModal';
+import { TemplateSuggestModal } from './src/modals/TemplateSuggestModal';
+import { BatchProgressModal } from './src/modals/BatchProgressModal';
+import { PreservationReportModal } from './src/modals/PreservationReportModal';
+import { DiffPreviewModal } from './src/modals/DiffPreviewModal';
+import { UsageModal } from './src/modals/UsageModal';
+import { TemplateBatch } from './src/services/templateBatch';
+import { TemplateRegistry } from './src/services/templateRegistry';
+import { DEFAULT_VERBS_ROOT, VerbRegistry } from './src/services/verbRegistry';
+import { findCfFence, parseCfHeader } from './src/services/cfFence';
+import type { CfFence } from './src/services/cfFence';
+import { CfCodeBlock } from './src/codeblocks/CfCodeBlock';
+import type { BatchFileRunner } from './src/services/templateBatch';
+import { VaultStreamWriter } from './src/utils/vaultStreamWriter';
+import { cftTemplateService, DEFAULT_TEMPLATES_ROOT, errorCallout } from './src/services/cftTemplate';
+import type { CftTemplate } from './src/services/cftTemplate';
+import { sectionService } from './src/services/sectionService';
+import { linkPreservationService } from './src/services/linkPreservation';
+import { REQUEST_FENCE_LANGUAGE, RequestCodeBlock } from './src/codeblocks/RequestCodeBlock';
+import { connectionDoctor } from './src/services/connectionDoctor';
+import type { ProbeResult } from './src/services/connectionDoctor';
+import { ConnectionDoctorModal } from './src/modals/ConnectionDoctorModal';
+import { templateContextService } from './src/services/templateContext';
+import { interpolateJson } from './src/utils/interpolate';
+import { presetService } from './src/services/presetService';
+import type { RequestPreset } from './src/services/presetService';
+import { PresetSuggestModal } from './src/modals/PresetSuggestModal';
+import { OutputModeSuggestModal } from './src/modals/OutputModeSuggestModal';
+import { OUTPUT_MODE_LABELS, outputPlacementService } from './src/services/outputPlacement';
+import type { OutputMode, OutputPlacement } from './src/services/outputPlacement';
+import { providerRegistry } from './src/providers/providerRegistry';
+import type { LLMEndpoint, LLMRequestBody, LLMUsage, ProviderId } from './src/providers/types';
+import { httpClient } from './src/utils/http';
+import { EditorStreamWriter, PreviewStreamWriter } from './src/utils/editorStreamWriter';
+import type { OutputTarget, StreamWriter } from './src/utils/editorStreamWriter';
+import { applyHunks, diffHunks } from './src/utils/lineDiff';
+import { THINK_MODE_LABELS, ThinkStreamWriter } from './src/utils/thinkStreamWriter';
+import type { ThinkMode } from './src/utils/thinkStreamWriter';
+import { isRecord, isStreaming, readString } from './src/providers/requestBody';
+import { EndpointSuggestModal } from './src/modals/EndpointSuggestModal';
 
 // Load environment variables
 dotenv.config({ path: `${process.cwd()}/.env` });
 
+interface SendRequestOptions {
+    /** Defaults to the active endpoint */
+    endpoint?: LLMEndpoint;
+    /** Defaults to the `defaultOutput` setting */
+    output?: OutputPlacement;
+    /** Names the job in callouts and new notes */
+    label?: string;
+    /** Stream here instead of opening an output placement; a `PreviewStreamWriter` is reviewed before writing */
+    writer?: StreamWriter;
+    /** Called once the request succeeds, fails or is cancelled */
+    onFinish?: (status: RequestStatus) => void;
+    /**
+     * Text the answer replaces; its citations and wikilinks are checked
+     * against the answer. Defaults to the selection when replacing it.
+     */
+    rewriting?: string;
+    /** Note the request runs on, for history and usage; defaults to the note active when it starts */
+    notePath?: string;
+}
+
 interface ContentFarmSettings {
     mySetting: string;
     localLLMPath: string;
+    /** Single template from before presets existed; seeds the "Default" preset */
     requestBodyTemplate: string;
+    presets: RequestPreset[];
+    endpoints: LLMEndpoint[];
+    /** ID of the endpoint requests go to; empty means Perplexica at `localLLMPath` */
+    activeEndpointId: string;
+    /** Write connection diagnostics and error details into the note */
+    verboseDiagnostics: boolean;
+    /** Where output goes when the preset doesn't say */
+    defaultOutput: OutputPlacement;
+    /** Folder holding cft templates */
+    templatesRoot: string;
+    /** Folder holding `cf` verb definitions */
+    verbsRoot: string;
+    /** Files a template batch runs at once */
+    batchConcurrency: number;
+    /** What happens to a reasoning model's `<think>` blocks in streamed answers */
+    thinkBlocks: ThinkMode;
+    /** Collect answers and review them as a diff instead of writing them as they stream */
+    previewChanges: boolean;
+    /** Merging duplicate citations gives a source the ID other notes already use for it */
+    reuseCitationIds: boolean;
+    /** Whether new citation IDs are random or derived from the source's URL or DOI */
+    citationIds: CitationIdStrategy;
+    /** Give up on a request that sends nothing for this long */
+    requestTimeoutSeconds: number;
+    /** Retries after network errors, timeouts, 5xx and 429 responses */
+    requestRetries: number;
     freepikApiKey: string;
     freepikDefaultLicense: 'free' | 'premium';
     freepikDefaultImageCount: number;
@@ -31,11 +126,11 @@ const DEFAULT_SETTINGS: ContentFarmSettings = {
   },
   "optimizationMode": "speed",
   "focusMode": "webSearch",
-  "query": "What is Perplexica's architecture?",
+  "query": "{{selection}}",
   "history": [
     {
       "role": "user",
-      "content": "What is Perplexica's architecture?"
+      "content": "{{selection}}"
     }
   ],
   "systemInstructions": "You are a helpful AI assistant. Provide clear, concise, and accurate information.",
@@ -43,6 +138,20 @@ const DEFAULT_SETTINGS: ContentFarmSettings = {
   "maxTokens": 2048,
   "temperature": 0.7
 }`,
+    presets: [],
+    endpoints: [],
+    activeEndpointId: '',
+    verboseDiagnostics: false,
+    defaultOutput: { mode: 'below-selection' },
+    templatesRoot: DEFAULT_TEMPLATES_ROOT,
+    verbsRoot: DEFAULT_VERBS_ROOT,
+    batchConcurrency: 2,
+    thinkBlocks: 'callout',
+    previewChanges: false,
+    reuseCitationIds: true,
+    citationIds: 'random',
+    requestTimeoutSeconds: 300,
+    requestRetries: 2,
     freepikApiKey: process.env.FREEPIK_API_KEY || '',
     freepikDefaultLicense: 'free',
     freepikDefaultImageCount: 10
@@ -52,6 +161,15 @@ export default class ContentFarmPlugin extends Plugin {
     private freepikPlugin: FreepikPlugin | null = null;
     public settings: ContentFarmSettings = DEFAULT_SETTINGS;
     private statusBarItemEl: HTMLElement | null = null;
+    private jobTracker: JobTracker = new JobTracker(null);
+    private historyStore: HistoryStore | null = null;
+    private usageStore: UsageStore | null = null;
+    private templateBatch: TemplateBatch | null = null;
+    private templateRegistry: TemplateRegistry | null = null;
+    /** Names of the registered "Send preset" commands, by preset ID */
+    private presetCommands = new Map<string, string>();
+    private verbRegistry: VerbRegistry | null = null;
+    private citationRegistry: CitationRegistry | null = null;
     private ribbonIconEl: HTMLElement | null = null;
 
     async onload(): Promise<void> {
@@ -68,8 +186,56 @@ export default class ContentFarmPlugin extends Plugin {
         this.freepikPlugin = new FreepikPlugin(this.app, this.manifest);
         await this.freepikPlugin.load();
         
+        // Status bar shows the running request and cancels it on click
+        this.statusBarItemEl = this.addStatusBarItem();
+        this.statusBarItemEl.addClass('mod-clickable');
+        this.statusBarItemEl.onClickEvent(() => this.cancelRequests());
+        this.jobTracker = new JobTracker(this.statusBarItemEl);
+        this.registerInterval(window.setInterval(() => this.jobTracker.render(), 1000));
+
+        this.historyStore = new HistoryStore(this.app.vault.adapter, `${this.manifest.dir}/request-history.json`);
+        await this.historyStore.load();
+        this.usageStore = new UsageStore(this.app.vault.adapter, `${this.manifest.dir}/token-usage.json`);
+        await this.usageStore.load();
+
+        // Index templates and citations once the vault is loaded, so startup doesn't replay a create event per file
+        this.templateRegistry = new TemplateRegistry(this.app);
+        this.verbRegistry = new VerbRegistry(this.app);
+        const citationRegistry = new CitationRegistry(this.app);
+        this.citationRegistry = citationRegistry;
+        citationService.setRegistry(citationRegistry);
+        this.app.workspace.onLayoutReady(async () => {
+            await this.reloadTemplates();
+            this.templateRegistry?.watch(this);
+            this.verbRegistry?.watch(this);
+            await citationRegistry.load();
+            citationRegistry.watch(this);
+        });
+
+        this.templateBatch = new TemplateBatch(this.app.vault.adapter, `${this.manifest.dir}/template-batch.json`);
+        await this.templateBatch.load();
+        if (this.templateBatch.resumable) {
+            new Notice('A template batch was interrupted. Run "Resume template batch" to continue it.');
+        }
+
         this.registerCommands();
         this.registerCitationCommands();
+
+        this.registerMarkdownCodeBlockProcessor(REQUEST_FENCE_LANGUAGE, (source, el, ctx) => {
+            ctx.addChild(new RequestCodeBlock(el, source, ctx.sourcePath,
+                () => this.runRequestBlock(source, el, ctx)));
+        });
+        this.registerMarkdownCodeBlockProcessor('cf', (source, el, ctx) => this.renderCfBlock(source, el, el, ctx));
+        // Hyphenated verbs (```cf-improve-selection) are fence languages of their own; catch them in reading view
+        this.registerMarkdownPostProcessor((el, ctx) => {
+            el.querySelectorAll('pre > code[class*="language-cf-"]').forEach(code => {
+                const pre = code.parentElement;
+                if (!pre) return;
+                const container = createDiv();
+                pre.replaceWith(container);
+                this.renderCfBlock(code.textContent ?? '', container, el, ctx);
+            });
+        });
         this.registerFreepikCommands();
         
         // Load Freepik styles
@@ -145,13 +311,59 @@ export default class ContentFarmPlugin extends Plugin {
             id: 'show-llm-settings',
             name: 'Show LLM Settings',
             callback: () => {
-                new Notice(`Current LLM URL: ${this.settings.localLLMPath}`);
+                const endpoint = this.getActiveEndpoint();
+                new Notice(`Current LLM endpoint: ${endpoint.name} (${endpoint.url})`);
                 console.log('LLM Settings:', this.settings);
             }
         });
+
+        this.addCommand({
+            id: 'check-llm-connection',
+            name: 'Check LLM connection',
+            callback: () => {
+                new ConnectionDoctorModal(this.app, this.settings.localLLMPath, async (url) => {
+                    this.settings.localLLMPath = url;
+                    await this.saveSettings();
+                }).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'open-request-history',
+            name: 'Open Request History',
+            callback: () => this.openHistory()
+        });
+
+        this.addCommand({
+            id: 'show-token-usage',
+            name: 'Show token usage',
+            callback: () => {
+                if (this.usageStore) new UsageModal(this.app, this.usageStore).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'cancel-current-request',
+            name: 'Cancel current request',
+            callback: () => this.cancelRequests()
+        });
+
+        this.addCommand({
+            id: 'switch-llm-endpoint',
+            name: 'Switch LLM Endpoint',
+            callback: () => {
+                const endpoints = [this.getDefaultEndpoint(), ...this.settings.endpoints];
+                new EndpointSuggestModal(this.app, endpoints, async (endpoint) => {
+                    this.settings.activeEndpointId = endpoint.id;
+                    await this.saveSettings();
+                    new Notice(`LLM endpoint switched to: ${endpoint.name}`);
+                }).open();
+            }
+        });
     }
 
     onunload(): void {
+        this.jobTracker.cancelAll();
         this.statusBarItemEl?.remove();
         this.ribbonIconEl?.remove();
     }
@@ -162,12 +374,19 @@ export default class ContentFarmPlugin extends Plugin {
     private registerCitationCommands(): void {
         console.log('Registering citation commands...');
         
+        this.addCommand({
+            id: 'check-citation-ids',
+            name: 'Check citation IDs across the vault',
+            callback: () => this.checkCitationIds()
+        });
+
         this.addCommand({
             id: 'convert-all-citations',
             name: 'Convert All Citations to Hex Format',
             editorCallback: async (editor: Editor) => {
                 console.log('convert-all-citations command triggered');
                 try {
+                    await this.citationsReady();
                     const content = editor.getValue();
                     console.log('Processing content length:', content.length);
                     const result = citationService.convertCitations(content);
@@ -188,11 +407,66 @@ export default class ContentFarmPlugin extends Plugin {
             }
         });
         
+        this.addCommand({
+            id: 'merge-duplicate-citations',
+            name: 'Merge duplicate citations by URL',
+            editorCallback: async (editor, ctx) => {
+                try {
+                    await this.citationsReady();
+                    const result = citationService.dedupeCitations(editor.getValue(), {
+                        path: ctx.file?.path ?? '',
+                        reuseVaultIds: this.settings.reuseCitationIds
+                    });
+                    if (!result.changed) {
+                        new Notice('No duplicate citations found');
+                        return;
+                    }
+                    editor.setValue(result.updatedContent);
+                    const { definitionsMerged, idsReused } = result.stats;
+                    new Notice(`Merged ${definitionsMerged} duplicate definition(s)` +
+                        (idsReused > 0 ? `, reused ${idsReused} ID(s) from other notes` : ''));
+                } catch (error) {
+                    const errorMsg = error instanceof Error ? error.message : String(error);
+                    console.error('Error in merge-duplicate-citations:', error);
+                    new Notice('Error merging citations: ' + errorMsg);
+                }
+            }
+        });
+        
         console.log('Citation commands registered');
     }
 
+    public async reloadTemplates(): Promise<void> {
+        await this.templateRegistry?.load(this.settings.templatesRoot);
+        await this.verbRegistry?.load(this.settings.verbsRoot);
+        this.templateProblems().forEach(problem => console.warn('Template problem:', problem));
+    }
+
+    private templateProblems(): string[] {
+        return [...this.templateRegistry?.problems() ?? [], ...this.verbRegistry?.problems() ?? []];
+    }
+
+    private configureServices(): void {
+        httpClient.configure({
+            timeoutMs: this.settings.requestTimeoutSeconds * 1000,
+            retries: this.settings.requestRetries
+        });
+        citationService.setIdStrategy(this.settings.citationIds);
+    }
+
     private async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        this.configureServices();
+        // Copy so edits never touch the shared default arrays
+        this.settings.endpoints = [...this.settings.endpoints];
+        this.settings.defaultOutput = { ...this.settings.defaultOutput };
+        if (this.settings.presets.length > 0) {
+            this.settings.presets = [...this.settings.presets];
+        } else {
+            // Save right away so the seeded preset keeps a stable command ID
+            this.settings.presets = presetService.seed(this.settings.requestBodyTemplate);
+            await this.saveSettings();
+        }
         
         // Initialize Freepik plugin if it exists
         if (this.freepikPlugin) {
@@ -250,6 +524,8 @@ export default class ContentFarmPlugin extends Plugin {
     }
 
     public async saveSettings(): Promise<void> {
+        this.configureServices();
+        this.syncPresetCommands();
         try {
             await this.saveData(this.settings);
         } catch (error) {
@@ -258,60 +534,42 @@ export default class ContentFarmPlugin extends Plugin {
         }
     }
 
-    private async testConnectivity(url: string): Promise<{success: boolean; error?: string; details?: any}> {
-        try {
-            // Try a simple fetch to check connectivity
-            const response = await fetch(url, {
-                method: 'OPTIONS', // Use OPTIONS to avoid CORS preflight issues
-                mode: 'no-cors',
-                cache: 'no-store'
-            });
-            
-            // If we get here, the request went through (even with CORS issues)
-            return { 
-                success: true,
-                details: {
-                    status: response.status,
-                    statusText: response.statusText,
-                    // Convert headers to a plain object
-                    headers: (() => {
-                        const headers: Record<string, string> = {};
-                        // @ts-ignore - Headers.entries() exists in browser environment
-                        for (const [key, value] of response.headers.entries()) {
-                            headers[key] = value;
-                        }
-                        return headers;
-                    })()
-                }
-            };
-        } catch (error) {
-            const err = error as Error;
-            return {
-                success: false,
-                error: err.message,
-                details: {
-                    name: err.name,
-                    stack: err.stack,
-                    isTypeError: err instanceof TypeError,
-                    isNetworkError: err.name === 'TypeError' && 
-                        (err.message.includes('fetch') || err.message.includes('network'))
-                }
-            };
-        }
+    private cancelRequests(): void {
+        const count = this.jobTracker.cancelAll();
+        new Notice(count > 0 ? `Cancelled ${count} request${count === 1 ? '' : 's'}` : 'No request is running');
     }
 
-    private async sendRequest(jsonString: string, editor?: Editor): Promise<string> {
-        if (!editor) {
-            throw new Error('No active editor found. Please open a markdown file and try again.');
-        }
-        
+    /**
+     * The endpoint requests are sent to. Falls back to Perplexica at `localLLMPath`
+     * when no configured endpoint is selected.
+     */
+    public getActiveEndpoint(): LLMEndpoint {
+        const configured = this.settings.endpoints.find(e => e.id === this.settings.activeEndpointId);
+        return configured ?? this.getDefaultEndpoint();
+    }
+
+    private getDefaultEndpoint(): LLMEndpoint {
+        return {
+            id: '',
+            name: 'Perplexica (Local LLM Path)',
+            provider: 'perplexica',
+            url: this.settings.localLLMPath,
+            model: '',
+            apiKey: ''
+        };
+    }
+
+    /**
+     * Verbose mode only: write a connection report into the note before the request
+     */
+    private async writeDiagnostics(editor: Editor, endpoint: LLMEndpoint, localLLMPath: string, jsonString: string): Promise<ProbeResult> {
         const timestamp = new Date().toISOString();
-        const { localLLMPath } = this.settings;
-        
+
         // Add diagnostic information
         const diagnostics = `## Connection Diagnostics (${timestamp})
 
 ### Current Configuration
+- **Provider**: ${providerRegistry.get(endpoint.provider).label}
 - **LLM URL**: \`${localLLMPath}\`
 - **Time**: ${timestamp}
 - **User Agent**: ${navigator.userAgent}
@@ -323,7 +581,7 @@ export default class ContentFarmPlugin extends Plugin {
         editor.replaceRange('\n---\n' + diagnostics, cursorPos);
         
         // Test connectivity
-        const testResult = await this.testConnectivity(localLLMPath);
+        const testResult = await connectionDoctor.probe(localLLMPath);
         
         // Add test results
         const testResultMarkdown = testResult.success 
@@ -359,163 +617,118 @@ ${JSON.stringify(testResult.details, null, 2)}\n\`\`\`
    \`\`\`
 
 5. **Update URL**
-   Run **Update LLM URL** command from command palette (Ctrl/Cmd+P) to change the URL.
+   Run **Check LLM connection** from the command palette (Ctrl/Cmd+P) to find and save a working URL.
 `;
 
-        editor.replaceRange(testResultMarkdown + '\n', editor.getCursor());
+        // Echo the request after the results
+        const separator = '\n---\n';
+        editor.replaceRange(testResultMarkdown + separator + '\n## LLM Request\n```json\n' + jsonString + '\n```\n', editor.getCursor());
+        return testResult;
+    }
+
+    private async sendRequest(jsonString: string, editor?: Editor, options: SendRequestOptions = {}): Promise<string> {
+        if (!editor) {
+            throw new Error('No active editor found. Please open a markdown file and try again.');
+        }
         
-        if (!testResult.success) {
-            throw new Error(`Failed to connect to ${localLLMPath}: ${testResult.error}`);
+        const endpoint = options.endpoint ?? this.getActiveEndpoint();
+        // A placement without a heading falls back to the default heading
+        const defaultOutput = this.settings.defaultOutput;
+        const placement: OutputPlacement = { ...defaultOutput, ...options.output };
+        const localLLMPath = endpoint.url || providerRegistry.get(endpoint.provider).defaultUrl;
+        
+        if (this.settings.verboseDiagnostics) {
+            const probe = await this.writeDiagnostics(editor, endpoint, localLLMPath, jsonString);
+            if (!probe.success) {
+                throw new Error(`Failed to connect to ${localLLMPath}: ${probe.error}`);
+            }
         }
 
-        // Add a separator before the request
-        const requestCursor = editor.getCursor();
-        const errorMarker = '```error\n';
-        const separator = '\n---\n';
-        editor.replaceRange(separator + '\n## LLM Request\n```json\n' + jsonString + '\n```\n', requestCursor);
-        
+        const notePath = options.notePath ?? this.app.workspace.getActiveFile()?.path ?? '';
+        const job = this.jobTracker.start(endpoint.name);
+        let writer: ThinkStreamWriter | null = null;
+        let status: RequestStatus = 'error';
+        let errorMessage: string | undefined;
+        let requestBody: LLMRequestBody | null = null;
+        let usage: LLMUsage | undefined;
+
         try {
-            console.log('Sending request to:', this.settings.localLLMPath);
+            console.log('Sending request to:', localLLMPath);
             console.log('Request body:', jsonString);
-            
-            let response: Response;
-            try {
-                response = await fetch(this.settings.localLLMPath, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: jsonString,
-                });
-            } catch (error: unknown) {
-                const err = error as Error;
-                const errorDetails = `## Error Details
-- **Type**: Network Error
-- **Message**: ${err.message}
-- **URL**: ${this.settings.localLLMPath}
-- **Time**: ${new Date().toISOString()}
 
-### Stack Trace
-\`\`\`
-${err.stack || 'No stack trace available'}
-\`\`\``;
-                
-                // Move to end of document to append error
-                const endPos = editor.lastLine();
-                editor.setCursor(endPos);
-                editor.replaceRange('\n' + errorMarker + errorDetails + '\n```\n', editor.getCursor());
-                
-                console.error('Fetch error details:', {
-                    name: err.name,
-                    message: err.message,
-                    stack: err.stack,
-                    type: typeof err,
-                    isTypeError: err instanceof TypeError,
-                    isNetworkError: err.name === 'TypeError' && err.message.includes('fetch')
-                });
-                
-                throw new Error(`Network error: ${err.message}`);
+            const requestData: unknown = JSON.parse(jsonString);
+            if (!isRecord(requestData)) {
+                throw new Error('Request body must be a JSON object');
             }
+            requestBody = requestData;
 
-            console.log('Response status:', response.status, response.statusText);
-            
-            if (!response.ok) {
-                const errorText = await response.text().catch(() => 'Could not read error response');
+            const rewriting = options.rewriting
+                ?? (!options.writer && placement.mode === 'replace-selection' ? editor.getSelection() : undefined);
+            const label = options.label ?? endpoint.name;
+            let preview = options.writer instanceof PreviewStreamWriter ? options.writer : null;
+            let target = options.writer;
+            // A rewrite is collected, so dropped links are reported before anything is written
+            const collect = this.settings.previewChanges || Boolean(rewriting);
+            if (!target && collect && placement.mode !== 'new-note') {
+                ({ writer: target, preview } = outputPlacementService.openPreview(editor, placement, label));
+            }
+            const output = new ThinkStreamWriter(
+                target ?? await outputPlacementService.open(this.app, editor, placement, label),
+                this.settings.thinkBlocks
+            );
+            writer = output;
+
+            const result = await llmService.send(endpoint, requestData, {
+                signal: job.signal,
+                onEvent: (event) => {
+                    if (event.type === 'text') output.write(event.text);
+                }
+            });
+
+            usage = result.usage;
+            if (!isStreaming(requestData)) {
+                output.write(result.text);
+            }
+            output.end();
+
+            await this.citationsReady();
+            const footnoted = citationService.footnoteSources(output.text, result.sources);
+            if (footnoted.changed) {
+                output.replaceWritten(footnoted.updatedContent);
+            }
+            const kept = !rewriting || await this.preserveLinks(output, rewriting, preview === null);
+            if (preview && kept) {
+                if (this.settings.previewChanges) await this.reviewPreview(editor, preview, label);
+                else this.writePreview(editor, preview, preview.after);
+            }
+            status = 'success';
+            return output.text;
+        } catch (error: unknown) {
+            errorMessage = error instanceof Error ? error.message : String(error);
+            if (error instanceof LLMRequestCancelledError) {
+                status = 'cancelled';
+                writer?.end();
+                writer?.write(cancelledMarker(job.elapsedSeconds));
+                new Notice('Request cancelled');
+                return writer?.text ?? '';
+            } else if (error instanceof LLMRequestError) {
                 const errorDetails = `## Error Details
-- **Status**: ${response.status} ${response.statusText}
-- **URL**: ${this.settings.localLLMPath}
+- **Type**: ${error.status === undefined ? 'Network Error' : `HTTP ${error.status}`}
+- **Message**: ${error.message}
+- **URL**: ${error.url}
 - **Time**: ${new Date().toISOString()}
 
 ### Response
 \`\`\`
-${errorText}
+${error.responseText || error.stack || 'No details available'}
 \`\`\``;
-                
-                // Move to end of document to append error
-                const endPos = editor.lastLine();
-                editor.setCursor(endPos);
-                editor.replaceRange('\n' + errorMarker + errorDetails + '\n```\n', editor.getCursor());
-                
-                console.error('Error response:', errorText);
-                throw new Error(`HTTP error! status: ${response.status} - ${response.statusText}`);
-            }
-
-            // Parse JSON to check if it's a streaming request
-            const requestData = JSON.parse(jsonString);
-            if (requestData.stream && editor) {
-                // Insert a new line and get the position for streaming
-                const cursor = editor.getCursor();
-                const insertPos = { line: cursor.line + 1, ch: 0 };
-                editor.replaceRange('\n', cursor);
-                
-                // Handle streaming response directly to editor
-                const reader = response.body?.getReader();
-                if (!reader) throw new Error('No response body');
-                
-                let result = '';
-                let lastUpdate = Date.now();
-                const updateThreshold = 50; // ms between updates
-                
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-                    
-                    const chunk = new TextDecoder().decode(value);
-                    result += chunk;
-                    
-                    // Only update the editor at a throttled rate for performance
-                    const now = Date.now();
-                    if (now - lastUpdate >= updateThreshold) {
-                        editor.replaceRange(chunk, insertPos);
-                        lastUpdate = now;
-                    } else {
-                        // For the last chunk, make sure to update
-                        if (done) {
-                            editor.replaceRange(chunk, insertPos);
-                        }
-                    }
-                    
-                    // Move cursor to end of inserted text
-                    const lines = result.split('\n');
-                    const lastLine = lines[lines.length - 1] || ''; // Handle empty last line
-                    editor.setCursor({
-                        line: insertPos.line + Math.max(0, lines.length - 1), // Ensure non-negative line number
-                        ch: lastLine.length
-                    });
-                }
-                
-                // Final update with any remaining content
-                editor.replaceRange(result, insertPos);
-                return result;
-            } else {
-                if (!editor) {
-                    new Notice('Error: No active editor');
-                    return '';
-                }
-
-                // Simple fetch request with the raw JSON string
-                try {
-                    const response = await fetch(this.settings.localLLMPath, {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: jsonString
-                    });
 
-                    if (!response.ok) {
-                        throw new Error(`HTTP error! status: ${response.status}`);
-                    }
+                const detailsHint = this.appendErrorDetails(editor, errorDetails);
 
-                    const data = await response.text();
-                    editor.replaceRange('\n' + data, editor.getCursor());
-                    return data;
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                    new Notice(`Error: ${errorMessage}`);
-                    throw error;
-                }
-            }
-        } catch (error: unknown) {
-            if (error instanceof Error) {
+                console.error('LLM request failed:', error);
+                new Notice(`Error: ${error.message} ${detailsHint}`);
+                throw error;
+            } else if (error instanceof Error) {
                 const errorDetails = `## Unhandled Error
 - **Type**: ${error.name}
 - **Message**: ${error.message}
@@ -526,10 +739,7 @@ ${errorText}
 ${error.stack || 'No stack trace available'}
 \`\`\``;
                 
-                // Move to end of document to append error
-                const endPos = editor.lastLine();
-                editor.setCursor(endPos);
-                editor.replaceRange('\n' + errorMarker + errorDetails + '\n```\n', editor.getCursor());
+                const detailsHint = this.appendErrorDetails(editor, errorDetails);
                 
                 console.error('Error sending request:', {
                     message: error.message,
@@ -539,7 +749,7 @@ ${error.stack || 'No stack trace available'}
                 });
                 
                 // Still show a brief notice for immediate feedback
-                new Notice(`Error: ${error.message} (see document for details)`);
+                new Notice(`Error: ${error.message} ${detailsHint}`);
                 
                 // Re-throw to maintain the error chain
                 throw error;
@@ -553,143 +763,804 @@ ${error.stack || 'No stack trace available'}
 ${errorMessage}
 \`\`\``;
                 
-                // Move to end of document to append error
-                const endPos = editor.lastLine();
-                editor.setCursor(endPos);
-                editor.replaceRange('\n' + errorMarker + errorDetails + '\n```\n', editor.getCursor());
+                const detailsHint = this.appendErrorDetails(editor, errorDetails);
                 
                 console.error('Unknown error type:', error);
-                new Notice(`Error: ${errorMessage} (see document for details)`);
+                new Notice(`Error: ${errorMessage} ${detailsHint}`);
                 
                 // Re-throw to maintain the error chain
                 throw new Error(errorMessage);
             }
+        } finally {
+            this.jobTracker.finish(job);
+            options.onFinish?.(status);
+            // A request that failed before answering cost nothing worth counting
+            if (requestBody && (status !== 'error' || usage || writer?.text)) {
+                await this.recordUsage(endpoint, requestBody, writer?.text ?? '', usage, {
+                    startedAt: job.startedAt,
+                    notePath,
+                    status
+                });
+            }
+            await this.historyStore?.add({
+                timestamp: new Date(job.startedAt).toISOString(),
+                endpointName: endpoint.name,
+                provider: endpoint.provider,
+                url: localLLMPath,
+                requestBody: jsonString,
+                notePath,
+                durationMs: Date.now() - job.startedAt,
+                status,
+                response: writer?.text.trim() ?? '',
+                ...(errorMessage ? { error: errorMessage } : {})
+            });
         }
     }
 
-    private generateHexId(length: number = 6): string {
-        return randomBytes(Math.ceil(length / 2))
-            .toString('hex')
-            .slice(0, length);
+    /**
+     * Store a request's token usage: the provider's counts when it sent them,
+     * otherwise a local estimate
+     */
+    private async recordUsage(
+        endpoint: LLMEndpoint,
+        body: LLMRequestBody,
+        answer: string,
+        reported: LLMUsage | undefined,
+        request: { startedAt: number; notePath: string; status: RequestStatus }
+    ): Promise<void> {
+        await this.usageStore?.add({
+            timestamp: new Date(request.startedAt).toISOString(),
+            notePath: request.notePath,
+            endpointName: endpoint.name,
+            provider: endpoint.provider,
+            durationMs: Date.now() - request.startedAt,
+            status: request.status,
+            ...measureUsage(endpoint, body, answer, reported)
+        });
     }
 
-    private registerCommands(): void {
-        this.addCommand({
-            id: 'open-content-farm-modal',
-            name: 'Open Content Farm',
-            callback: () => {
-                new ContentFarmModal(this.app).open();
-            }
-        });
+    /**
+     * Append error details to the note in verbose mode; otherwise keep the note clean
+     * @returns Hint for the notice telling the user where to look next
+     */
+    private appendErrorDetails(editor: Editor, errorDetails: string): string {
+        if (!this.settings.verboseDiagnostics) {
+            return '(run "Check LLM connection" to diagnose)';
+        }
 
-        this.addCommand({
-            id: 'insert-sample-text',
-            name: 'Insert Sample Text',
-            editorCallback: (editor: Editor) => {
-                editor.replaceSelection('Sample text from Content Farm');
+        // Move to end of document to append error
+        const endPos = editor.lastLine();
+        editor.setCursor(endPos);
+        editor.replaceRange('\n```error\n' + errorDetails + '\n```\n', editor.getCursor());
+        return '(see document for details)';
+    }
+
+    private openHistory(): void {
+        if (!this.historyStore) return;
+
+        new HistoryModal(this.app, this.historyStore, async (entry) => {
+            const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+            if (!editor) {
+                new Notice('Open a note to re-run the request in');
+                return;
             }
+
+            // Prefer the endpoint the request was originally sent to, if it still exists
+            const endpoint = this.settings.endpoints.find(e => e.name === entry.endpointName && e.provider === entry.provider)
+                ?? this.getActiveEndpoint();
+            editor.setCursor(editor.lastLine());
+            await this.sendRequest(entry.requestBody, editor, { endpoint }).catch(error => {
+                console.error('Error replaying request:', error);
+            });
+        }).open();
+    }
+
+    /**
+     * Send a preset's request body, filled from the active note, to the preset's endpoint
+     */
+    private async sendPreset(preset: RequestPreset, editor: Editor, output?: OutputPlacement): Promise<void> {
+        try {
+            const selection = editor.getSelection();
+            const jsonString = await this.interpolateRequest(
+                this.app.workspace.getActiveFile(), preset.body, selection, editor.getCursor('from').line
+            );
+            JSON.parse(jsonString);
+
+            const endpoint = this.settings.endpoints.find(e => e.id === preset.endpointId) ?? this.getActiveEndpoint();
+            await this.sendRequest(jsonString, editor, {
+                endpoint,
+                output: output ?? preset.output ?? this.settings.defaultOutput,
+                label: preset.name
+            });
+        } catch (error) {
+            console.error(`Error sending preset "${preset.name}":`, error);
+            new Notice(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Match the "Send preset" commands to the presets: add new ones and
+     * re-register renamed ones under their new name, removing deleted ones
+     */
+    private syncPresetCommands(): void {
+        const presets = new Map(this.settings.presets.map(preset => [preset.id, preset]));
+        this.presetCommands.forEach((name, id) => {
+            if (presets.get(id)?.name === name) return;
+            this.removeCommand(`send-preset-${id}`);
+            this.presetCommands.delete(id);
         });
+        presets.forEach(preset => {
+            if (!this.presetCommands.has(preset.id)) this.registerPresetCommand(preset);
+        });
+    }
 
-        // Command to insert a citation reference and its footnote definition
+    /**
+     * Give a preset its own command palette entry
+     */
+    private registerPresetCommand(preset: RequestPreset): void {
+        const presetId = preset.id;
+        this.presetCommands.set(presetId, preset.name);
         this.addCommand({
-            id: 'insert-hex-citation',
-            name: 'Insert Random Hex Citation Footnote',
+            id: `send-preset-${presetId}`,
+            name: `Send preset: ${preset.name}`,
             editorCallback: (editor: Editor) => {
-                console.log('insert-hex-citation command triggered');
-                try {
-                    const cursor = editor.getCursor();
-                    console.log('Cursor position:', cursor);
-                    
-                    const citationId = this.generateHexId();
-                    console.log('Generated citation ID:', citationId);
-                    
-                    // Get current line content
-                    const lineContent = editor.getLine(cursor.line);
-                    console.log('Current line content:', lineContent);
-                    
-                    // Insert the citation reference at cursor position
-                    const insertPosition = { line: cursor.line, ch: cursor.ch };
-                    editor.replaceRange(`[^${citationId}]`, insertPosition);
-                    
-                    // Add a new line for the footnote definition
-                    const nextLine = cursor.line + 1;
-                    const nextLineContent = editor.getLine(nextLine) || '';
-                    
-                    // Insert a newline if next line is not empty
-                    if (nextLineContent.trim() !== '') {
-                        editor.replaceRange('\n', { line: nextLine, ch: 0 });
-                    }
-                    
-                    // Add the footnote definition
-                    const footnotePosition = { 
-                        line: nextLineContent.trim() === '' ? nextLine : nextLine + 1, 
-                        ch: 0 
-                    };
-                    
-                    editor.replaceRange(`[^${citationId}]: `, footnotePosition);
-                    
-                    // Position cursor at the end of the footnote definition
-                    const newCursorPos = {
-                        line: footnotePosition.line,
-                        ch: `[^${citationId}]: `.length
-                    };
-                    editor.setCursor(newCursorPos);
-                    
-                    console.log('Footnote insertion complete');
-                } catch (error) {
-                    console.error('Error in insert-hex-citation:', error);
-                    new Notice('Error inserting citation: ' + (error instanceof Error ? error.message : String(error)));
+                const current = this.settings.presets.find(p => p.id === presetId);
+                if (!current) {
+                    new Notice('This preset has been deleted');
+                    return;
                 }
+                void this.sendPreset(current, editor);
             }
         });
+    }
 
-        this.addCommand({
-            id: 'open-sample-modal-complex',
-            name: 'Open sample modal (complex)',
-            checkCallback: (checking: boolean) => {
-                const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-                if (markdownView) {
-                    if (!checking) {
-                        new ContentFarmModal(this.app).open();
-                    }
-                    return true;
-                }
-                return false;
-            }
+    /**
+     * Run a rendered request fence, streaming the answer directly beneath it
+     */
+    private async runRequestBlock(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext): Promise<RequestStatus> {
+        const view = this.markdownViewFor(ctx.sourcePath);
+        const section = ctx.getSectionInfo(el);
+        if (!view || !section) {
+            throw new Error('Could not find the code block in an open note');
+        }
+
+        const editor = view.editor;
+        // The block's own note, which need not be the active one, e.g. in a hover preview
+        const jsonString = await this.interpolateRequest(view.file, source, '', section.lineStart);
+        JSON.parse(jsonString);
+
+        const end = editor.posToOffset({ line: section.lineEnd, ch: editor.getLine(section.lineEnd).length });
+        const writer = this.openOutput(editor, { from: end, to: end, lead: '\n\n' });
+
+        let status: RequestStatus = 'error';
+        await this.sendRequest(jsonString, editor, {
+            writer,
+            notePath: ctx.sourcePath,
+            onFinish: (finished) => { status = finished; }
+        });
+        return status;
+    }
+
+    private markdownViewFor(path: string): MarkdownView | undefined {
+        return this.app.workspace.getLeavesOfType('markdown')
+            .map(leaf => leaf.view)
+            .find((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === path);
+    }
+
+    /**
+     * Render a `cf` fence with its resolved verb and a Run button
+     * @param el - Where the block renders
+     * @param sectionEl - The rendered section holding the fence, for its source lines
+     */
+    private renderCfBlock(source: string, el: HTMLElement, sectionEl: HTMLElement, ctx: MarkdownPostProcessorContext): void {
+        const section = ctx.getSectionInfo(sectionEl);
+        const headerLine = section?.text.split('\n')[section.lineStart] ?? '```cf';
+        const header = parseCfHeader(headerLine);
+        const resolution = header ? this.verbRegistry?.resolveVerb(header.tokens) ?? null : null;
+
+        ctx.addChild(new CfCodeBlock(el, source, ctx.sourcePath, headerLine, header, resolution, async () => {
+            const view = this.markdownViewFor(ctx.sourcePath);
+            const current = ctx.getSectionInfo(sectionEl);
+            if (!view?.file || !current) {
+                throw new Error('Could not find the code block in an open note');
+            }
+            const fence = findCfFence(view.editor.getValue().split('\n'), current.lineStart);
+            if (!fence) throw new Error('Could not find the cf block in the note');
+            return this.runCfFence(view.editor, view.file, fence);
+        }));
+    }
+
+    /**
+     * Execute a `cf` fence in place: resolve its verb, fill the verb's prompt
+     * and stream the answer below the closing fence. The fence body is the
+     * verb's input, bound to `{{body}}` (and `{{selection}}`) or appended to the
+     * prompt when the verb uses neither.
+     */
+    private async runCfFence(editor: Editor, file: TFile, fence: CfFence): Promise<RequestStatus> {
+        const resolution = this.verbRegistry?.resolveVerb(fence.header.tokens);
+        if (!resolution) {
+            throw new Error(fence.header.tokens.length > 0
+                ? `Unknown verb: ${fence.header.tokens.join(' ')}`
+                : 'A cf block needs a verb, e.g. ```cf ask');
+        }
+        const { verb, name, modifiers } = resolution;
+
+        const context = await templateContextService.build(this.app, file, { selection: fence.body, line: fence.lineStart });
+        const noteVariables = templateContextService.resolver(context);
+        const resolve = (variable: string): unknown => {
+            if (variable === 'body') return fence.body;
+            if (variable === 'modifiers') return modifiers.join(', ');
+            if (variable.startsWith('args.')) return fence.header.args[variable.slice('args.'.length)] ?? '';
+            return noteVariables(variable);
+        };
+
+        const usesBody = /\{\{\s*(body|selection)\s*\}\}/.test(`${verb.system}\n${verb.skeleton}`);
+        const { body, unresolved } = cftTemplateService.buildRequest(verb, resolve, usesBody ? '' : fence.body);
+        if (unresolved.length > 0) {
+            new Notice(`Unknown template variables: ${unresolved.join(', ')}`);
+        }
+
+        const end = editor.posToOffset({ line: fence.lineEnd, ch: editor.getLine(fence.lineEnd).length });
+        const writer = this.openOutput(editor, { from: end, to: end, lead: '\n\n' });
+
+        let status: RequestStatus = 'error';
+        try {
+            await this.sendRequest(JSON.stringify(body), editor, {
+                endpoint: this.templateEndpoint(verb),
+                writer,
+                label: `cf ${name}`,
+                notePath: file.path,
+                onFinish: (finished) => { status = finished; }
+            });
+        } catch (error) {
+            this.writeFailure(editor, writer, error, `cf ${name} failed`);
+        }
+        return status;
+    }
+
+    private pickTemplate(editor: Editor, file: TFile): void {
+        const matching = this.templateRegistry?.matching(file.path) ?? [];
+        if (matching.length === 0) {
+            new Notice("No template matches this file's path");
+            return;
+        }
+
+        new TemplateSuggestModal(this.app, matching, (template) => {
+            void this.runTemplate(template, editor, file);
+        }).open();
+    }
+
+    /**
+     * Stream a template's answer into a note's empty body. The frontmatter is
+     * never touched; a body with any prose aborts the run rather than merging,
+     * unless the answer is previewed first.
+     */
+    private async runTemplate(template: CftTemplate, editor: Editor, file: TFile): Promise<void> {
+        const content = editor.getValue();
+        const start = getFrontMatterInfo(content).contentStart;
+        if (content.slice(start).trim() && !this.settings.previewChanges) {
+            new Notice('File has existing body. Edit manually, delete body to re-run, or turn on "Preview changes".');
+            return;
+        }
+
+        const { body, unresolved } = cftTemplateService.buildRequest(template, cftTemplateService.resolver(file, content));
+        if (unresolved.length > 0) {
+            new Notice(`Unknown template variables: ${unresolved.join(', ')}`);
+        }
+
+        // Replace the body and write right after the frontmatter
+        const writer = this.openOutput(editor, {
+            from: start,
+            to: content.length,
+            lead: start > 0 && !content.slice(0, start).endsWith('\n') ? '\n' : ''
+        });
+
+        try {
+            await this.sendRequest(JSON.stringify(body), editor, {
+                endpoint: this.templateEndpoint(template),
+                writer,
+                label: template.title,
+                notePath: file.path
+            });
+        } catch (error) {
+            this.writeFailure(editor, writer, error);
+        }
+    }
+
+    /**
+     * Run the template whose glob most specifically matches the active file, without a picker
+     */
+    private runDefaultTemplate(editor: Editor, file: TFile): void {
+        const { template, candidates } = this.templateRegistry?.resolve(file.path) ?? { template: null, candidates: [] };
+        if (candidates.length > 1) {
+            new Notice(`Ambiguous templates for this file: ${candidates.map(t => t.title).join(', ')}. ` +
+                'Make one glob more specific, or use "Run template on this file".');
+            return;
+        }
+        if (!template) {
+            new Notice("No template matches this file's path");
+            return;
+        }
+        new Notice(`Running template: ${template.title}`);
+        void this.runTemplate(template, editor, file);
+    }
+
+    /**
+     * Regenerate the section under the cursor with the file's default
+     * template, asking only when no single template wins
+     */
+    private pickSectionTemplate(editor: Editor, file: TFile): void {
+        const { template, candidates } = this.templateRegistry?.resolve(file.path) ?? { template: null, candidates: [] };
+        if (template) {
+            void this.regenerateSection(template, editor, file);
+            return;
+        }
+
+        const choices = candidates.length > 0 ? candidates : this.templateRegistry?.list() ?? [];
+        if (choices.length === 0) {
+            new Notice(`No templates in ${this.settings.templatesRoot}`);
+            return;
+        }
+        new TemplateSuggestModal(this.app, choices, (picked) => {
+            void this.regenerateSection(picked, editor, file);
+        }).open();
+    }
+
+    /**
+     * Replace the body of the section under the cursor with a fresh answer to
+     * that section's skeleton instructions. Only the lines between its heading
+     * and the next heading change; subsections and the rest of the note,
+     * including their citations, are left alone.
+     */
+    private async regenerateSection(template: CftTemplate, editor: Editor, file: TFile): Promise<void> {
+        const content = editor.getValue();
+        const lines = content.split('\n');
+        const section = sectionService.findSection(lines, editor.getCursor().line);
+        if (!section) {
+            new Notice('Place the cursor under a heading');
+            return;
+        }
+
+        const { template: sectionTemplate, context } = sectionService.sectionTemplate(template, section, lines);
+        const { body, unresolved } = cftTemplateService.buildRequest(
+            sectionTemplate,
+            cftTemplateService.resolver(file, content),
+            context
+        );
+        if (unresolved.length > 0) {
+            new Notice(`Unknown template variables: ${unresolved.join(', ')}`);
+        }
+
+        // Keep the heading line and the blank lines before the next heading, replacing only the body between
+        let last = section.bodyEnd - 1;
+        while (last > section.headingLine && lines[last]!.trim() === '') last--;
+        // Collected, so the section only changes once the rewrite is kept
+        const writer = new PreviewStreamWriter(editor, {
+            from: editor.posToOffset({ line: section.headingLine, ch: lines[section.headingLine]!.length }),
+            to: editor.posToOffset({ line: last, ch: lines[last]!.length }),
+            lead: '\n\n'
+        });
+
+        const label = `${template.title} · ${section.heading}`;
+        try {
+            await this.sendRequest(JSON.stringify(body), editor, {
+                endpoint: this.templateEndpoint(template),
+                writer,
+                label,
+                notePath: file.path,
+                rewriting: lines.slice(section.bodyStart, section.bodyEnd).join('\n').trim()
+            });
+        } catch (error) {
+            this.writeFailure(editor, writer, error, 'Section regeneration failed');
+        }
+    }
+
+    /**
+     * Put a failure callout where the answer was going. A collected answer is
+     * never written, so its callout goes in at the start of the target, leaving
+     * the text there as it was.
+     */
+    private writeFailure(editor: Editor, writer: StreamWriter, error: unknown, title?: string): void {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!(writer instanceof PreviewStreamWriter)) {
+            writer.write(errorCallout(message, title));
+        } else if (editor.getValue() === writer.before) {
+            editor.replaceRange(errorCallout(message, title), editor.offsetToPos(writer.target.from));
+        } else {
+            new Notice(`${title ?? 'Template run failed'}: ${message}`);
+        }
+    }
+
+    /**
+     * Write to a range of the note, or collect the output for review when
+     * "Preview changes" is on
+     */
+    private openOutput(editor: Editor, target: OutputTarget): StreamWriter {
+        return this.settings.previewChanges
+            ? new PreviewStreamWriter(editor, target)
+            : EditorStreamWriter.at(editor, target);
+    }
+
+    /**
+     * Show collected output as a diff against the note and write the accepted
+     * hunks as a single edit, so one undo reverts them all
+     */
+    private async reviewPreview(editor: Editor, preview: PreviewStreamWriter, title: string): Promise<void> {
+        const diff = diffHunks(preview.before, preview.after);
+        const accepted = await new Promise<boolean[] | null>(resolve => {
+            new DiffPreviewModal(this.app, title, diff, resolve).open();
+        });
+        if (!accepted || !accepted.some(Boolean)) {
+            new Notice('Generated changes discarded');
+            return;
+        }
+
+        this.writePreview(editor, preview, applyHunks(diff, accepted));
+    }
+
+    /**
+     * Turn the note a preview started from into `next`, unless it was edited meanwhile
+     */
+    private writePreview(editor: Editor, preview: PreviewStreamWriter, next: string): void {
+        const current = editor.getValue();
+        if (current !== preview.before) {
+            new Notice('The note changed while the answer was generated; changes not applied');
+            return;
+        }
+
+        // Replace only the span that differs, in one edit
+        let head = 0;
+        while (head < current.length && head < next.length && current[head] === next[head]) head++;
+        let tail = 0;
+        while (tail < current.length - head && tail < next.length - head &&
+            current[current.length - 1 - tail] === next[next.length - 1 - tail]) tail++;
+        editor.replaceRange(
+            next.slice(head, next.length - tail),
+            editor.offsetToPos(head),
+            editor.offsetToPos(current.length - tail)
+        );
+    }
+
+    /**
+     * Put back the citations and wikilinks a rewrite dropped, and if any were
+     * dropped, ask whether to keep the rewrite before it is final
+     * @param output - Holds the rewrite
+     * @param original - The text it replaced
+     * @param written - Whether the rewrite is already in the note, rather
+     * than collected, and must be replaced by the original if rejected
+     * @returns Whether the rewrite is kept
+     */
+    private async preserveLinks(output: ThinkStreamWriter, original: string, written: boolean): Promise<boolean> {
+        const report = linkPreservationService.restore(original, output.text);
+        if (report.text !== output.text) {
+            output.replaceWritten(report.text);
+        }
+        if (report.restored.length === 0 && report.lost.length === 0) return true;
+
+        const accepted = await new Promise<boolean>(resolve => {
+            new PreservationReportModal(this.app, report, resolve).open();
+        });
+        if (!accepted) {
+            if (written) output.replaceAll(original);
+            new Notice(written ? 'Original text restored' : 'Rewrite discarded; the original text is unchanged');
+        }
+        return accepted;
+    }
+
+    /**
+     * Report hex citation IDs defined in more than one place
+     */
+    private async checkCitationIds(): Promise<void> {
+        const registry = this.citationRegistry;
+        if (!registry) return;
+        await registry.loaded;
+
+        const collisions = registry.collisions();
+        const counts = `${registry.size} citation ID(s) in the vault`;
+        if (collisions.length === 0) {
+            new Notice(`${counts}, no collisions`);
+            return;
+        }
+
+        const lines = collisions.map(({ id, definitions }) =>
+            `[^${id}] is defined in ${definitions.map(d => `${d.path}:${d.line + 1}`).join(', ')}`);
+        lines.forEach(line => console.warn('Citation collision:', line));
+        new Notice(`${counts}, ${collisions.length} collision(s):\n` +
+            lines.slice(0, 5).join('\n') + (lines.length > 5 ? '\n(see console for the rest)' : ''), 10000);
+    }
+
+    private checkTemplates(): void {
+        const problems = this.templateProblems();
+        const counts = `${this.templateRegistry?.list().length ?? 0} template(s) in ${this.settings.templatesRoot}, ` +
+            `${this.verbRegistry?.verbs().size ?? 0} verb(s) in ${this.settings.verbsRoot}`;
+        if (problems.length === 0) {
+            new Notice(`${counts}, no problems found`);
+            return;
+        }
+        problems.forEach(problem => console.warn('Template problem:', problem));
+        new Notice(`${counts}, ${problems.length} problem(s):\n` +
+            problems.slice(0, 5).join('\n') + (problems.length > 5 ? '\n(see console for the rest)' : ''), 10000);
+    }
+
+    /**
+     * The endpoint named by a template's `endpoint` key, else the active one
+     */
+    private templateEndpoint(template: CftTemplate): LLMEndpoint {
+        const name = readString(template.config.endpoint);
+        return this.settings.endpoints.find(e => e.name === name) ?? this.getActiveEndpoint();
+    }
+
+    /**
+     * Pick a template matching the active file and run it on every matching
+     * file in the active file's folder and its subfolders
+     */
+    private pickBatchTemplate(active: TFile): void {
+        const batch = this.templateBatch;
+        if (!batch) return;
+        if (batch.running) {
+            new Notice('A template batch is already running');
+            this.openBatchProgress();
+            return;
+        }
+
+        const matching = this.templateRegistry?.matching(active.path) ?? [];
+        if (matching.length === 0) {
+            new Notice("No template matches this file's path");
+            return;
+        }
+
+        new TemplateSuggestModal(this.app, matching, (template) => {
+            const folder = active.parent?.path ?? '';
+            const prefix = folder && folder !== '/' ? `${folder}/` : '';
+            const templatesPrefix = `${normalizePath(this.settings.templatesRoot)}/`;
+            const paths = this.app.vault.getMarkdownFiles()
+                .filter(file => file.path.startsWith(prefix) && !file.path.startsWith(templatesPrefix))
+                .filter(file => cftTemplateService.matches(template, file.path))
+                .map(file => file.path)
+                .sort((a, b) => a.localeCompare(b));
+
+            this.openBatchProgress();
+            batch.start(template.path, folder, paths, this.batchRunner(template), this.settings.batchConcurrency)
+                .then(() => this.notifyBatchFinished())
+                .catch(error => new Notice(`Template batch failed: ${error instanceof Error ? error.message : String(error)}`));
+        }).open();
+    }
+
+    private async resumeBatch(): Promise<void> {
+        const batch = this.templateBatch;
+        const state = batch?.current;
+        if (!batch || !state || !batch.resumable) {
+            new Notice('No template batch to resume');
+            return;
+        }
+
+        const template = this.templateRegistry?.get(state.templatePath);
+        if (!template) {
+            new Notice(`Template ${state.templatePath} no longer exists or could not be read`);
+            return;
+        }
+
+        this.openBatchProgress();
+        try {
+            await batch.resume(this.batchRunner(template), this.settings.batchConcurrency);
+            this.notifyBatchFinished();
+        } catch (error) {
+            new Notice(`Template batch failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private openBatchProgress(): void {
+        if (!this.templateBatch) return;
+        new BatchProgressModal(this.app, this.templateBatch, () => void this.resumeBatch()).open();
+    }
+
+    private notifyBatchFinished(): void {
+        const counts = this.templateBatch?.counts();
+        if (!counts) return;
+        const remaining = counts.pending > 0 ? `, ${counts.pending} left to resume` : '';
+        new Notice(`Template batch: ${counts.done} written, ${counts.skipped} skipped, ${counts.error} failed${remaining}`);
+    }
+
+    /**
+     * Run a template on one file without opening it. Mirrors `runTemplate`:
+     * files with a body are skipped, and failures end in a `cf-error` callout.
+     */
+    private batchRunner(template: CftTemplate): BatchFileRunner {
+        return async ({ path, signal, original, begin }) => {
+            const file = this.app.vault.getFileByPath(path);
+            if (!file) throw new Error('File no longer exists');
+
+            // Undo an interrupted run's partial answer, so its body isn't taken for the user's
+            if (original !== undefined) {
+                await this.app.vault.process(file, data => data.slice(0, getFrontMatterInfo(data).contentStart) + original);
+            }
+
+            const content = await this.app.vault.read(file);
+            const start = getFrontMatterInfo(content).contentStart;
+            if (content.slice(start).trim()) return 'skipped';
+
+            const { body } = cftTemplateService.buildRequest(template, cftTemplateService.resolver(file, content));
+            const frontmatter = content.slice(0, start);
+            const prefix = start > 0 && !frontmatter.endsWith('\n') ? `${frontmatter}\n` : frontmatter;
+            await begin(content.slice(start));
+            const vaultWriter = new VaultStreamWriter(this.app.vault, file, prefix);
+            const writer = new ThinkStreamWriter(vaultWriter, this.settings.thinkBlocks);
+
+            // Cancelling the batch cancels the file's job; cancelling the job alone skips to the next file
+            const job = this.jobTracker.start(`${template.title}: ${file.basename}`);
+            const onAbort = () => job.cancel();
+            signal.addEventListener('abort', onAbort);
+
+            const endpoint = this.templateEndpoint(template);
+            let status: RequestStatus = 'error';
+            let usage: LLMUsage | undefined;
+            let answer = '';
+            try {
+                const result = await llmService.send(endpoint, body, {
+                    signal: job.signal,
+                    onEvent: (event) => {
+                        if (event.type === 'text') writer.write(event.text);
+                    }
+                });
+                usage = result.usage;
+                writer.end();
+                answer = writer.text;
+                await this.citationsReady();
+                const footnoted = citationService.footnoteSources(writer.text, result.sources);
+                if (footnoted.changed) {
+                    writer.replaceWritten(footnoted.updatedContent);
+                }
+                status = 'success';
+                return 'done';
+            } catch (error) {
+                writer.end();
+                answer = writer.text;
+                if (error instanceof LLMRequestCancelledError) {
+                    status = 'cancelled';
+                    writer.write(cancelledMarker(job.elapsedSeconds));
+                    return 'cancelled';
+                }
+                writer.write(errorCallout(error instanceof Error ? error.message : String(error)));
+                throw error;
+            } finally {
+                signal.removeEventListener('abort', onAbort);
+                this.jobTracker.finish(job);
+                await vaultWriter.flush();
+                if (status !== 'error' || usage || answer) {
+                    await this.recordUsage(endpoint, body, answer, usage, { startedAt: job.startedAt, notePath: path, status });
+                }
+            }
+        };
+    }
+
+    /**
+     * Fill `{{...}}` placeholders in a JSON request body from a note
+     * @param file - The note variables come from; without one the body is sent as written
+     * @param jsonTemplate - Request body, possibly containing placeholders
+     * @param selection - Text bound to `{{selection}}`
+     * @param line - Line the heading path is computed for
+     * @returns The request body with every known placeholder JSON-escaped in place
+     */
+    private async interpolateRequest(file: TFile | null, jsonTemplate: string, selection: string, line: number): Promise<string> {
+        if (!file) return jsonTemplate;
+
+        const context = await templateContextService.build(this.app, file, { selection, line });
+        const result = interpolateJson(jsonTemplate, templateContextService.resolver(context));
+        if (result.unresolved.length > 0) {
+            new Notice(`Unknown template variables: ${result.unresolved.join(', ')}`);
+        }
+        return result.text;
+    }
+
+    /**
+     * Wait for the vault's citations to be indexed, so new IDs are checked against all of them
+     */
+    private async citationsReady(): Promise<void> {
+        await this.citationRegistry?.loaded;
+    }
+
+    private async generateHexId(length: number = 6): Promise<string> {
+        await this.citationsReady();
+        return citationService.generateHexId(length);
+    }
+
+    private registerCommands(): void {
+        this.addCommand({
+            id: 'open-content-farm-modal',
+            name: 'Open Content Farm',
+            callback: () => {
+                new ContentFarmModal(this.app).open();
+            }
+        });
+
+        this.addCommand({
+            id: 'insert-sample-text',
+            name: 'Insert Sample Text',
+            editorCallback: (editor: Editor) => {
+                editor.replaceSelection('Sample text from Content Farm');
+            }
+        });
+
+        // Command to insert a citation reference and its footnote definition
+        this.addCommand({
+            id: 'insert-hex-citation',
+            name: 'Insert Random Hex Citation Footnote',
+            editorCallback: async (editor: Editor) => {
+                console.log('insert-hex-citation command triggered');
+                try {
+                    const citationId = await this.generateHexId();
+                    const cursor = editor.getCursor();
+                    console.log('Cursor position:', cursor);
+                    
+                    console.log('Generated citation ID:', citationId);
+                    
+                    // Get current line content
+                    const lineContent = editor.getLine(cursor.line);
+                    console.log('Current line content:', lineContent);
+                    
+                    // Insert the citation reference at cursor position
+                    const insertPosition = { line: cursor.line, ch: cursor.ch };
+                    editor.replaceRange(`[^${citationId}]`, insertPosition);
+                    
+                    // Add a new line for the footnote definition
+                    const nextLine = cursor.line + 1;
+                    const nextLineContent = editor.getLine(nextLine) || '';
+                    
+                    // Insert a newline if next line is not empty
+                    if (nextLineContent.trim() !== '') {
+                        editor.replaceRange('\n', { line: nextLine, ch: 0 });
+                    }
+                    
+                    // Add the footnote definition
+                    const footnotePosition = { 
+                        line: nextLineContent.trim() === '' ? nextLine : nextLine + 1, 
+                        ch: 0 
+                    };
+                    
+                    editor.replaceRange(`[^${citationId}]: `, footnotePosition);
+                    
+                    // Position cursor at the end of the footnote definition
+                    const newCursorPos = {
+                        line: footnotePosition.line,
+                        ch: `[^${citationId}]: `.length
+                    };
+                    editor.setCursor(newCursorPos);
+                    
+                    console.log('Footnote insertion complete');
+                } catch (error) {
+                    console.error('Error in insert-hex-citation:', error);
+                    new Notice('Error inserting citation: ' + (error instanceof Error ? error.message : String(error)));
+                }
+            }
+        });
+
+        this.addCommand({
+            id: 'open-sample-modal-complex',
+            name: 'Open sample modal (complex)',
+            checkCallback: (checking: boolean) => {
+                const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+                if (markdownView) {
+                    if (!checking) {
+                        new ContentFarmModal(this.app).open();
+                    }
+                    return true;
+                }
+                return false;
+            }
         });
 
         this.addCommand({
             id: 'send-perplexica-request',
             name: 'Send Perplexica Request',
             editorCallback: (editor) => {
-                const template = `{
-  "chatModel": {
-    "provider": "ollama",
-    "name": "llama3.2:latest"
-  },
-  "embeddingModel": {
-    "provider": "ollama",
-    "name": "llama3.2:latest"
-  },
-  "optimizationMode": "speed",
-  "focusMode": "webSearch",
-  "query": "Your query here",
-  "history": [
-    {
-      "role": "user",
-      "content": "Your query here"
-    }
-  ],
-  "systemInstructions": "You are a helpful AI assistant. Provide clear, concise, and accurate information.",
-  "stream": false,
-  "maxTokens": 2048,
-  "temperature": 0.7
-}`;
-                editor.replaceSelection(
-                    '```requestjson--perplexica\n' + 
-                    template + '\n' +
-                    '```'
-                );
+                new PresetSuggestModal(this.app, this.settings.presets, (preset) => {
+                    // Placeholders are kept; they are filled in when the block is sent
+                    editor.replaceSelection(
+                        '```requestjson--perplexica\n' + 
+                        preset.body + '\n' +
+                        '```'
+                    );
+                }).open();
             }
         });
 
@@ -697,13 +1568,13 @@ ${errorMessage}
         this.addCommand({
             id: 'add-hex-citation',
             name: 'Add Inline Hex Citation',
-            editorCallback: (editor: Editor) => {
+            editorCallback: async (editor: Editor) => {
                 console.log('add-hex-citation command triggered');
                 try {
+                    const hexId = await this.generateHexId();
                     const cursor = editor.getCursor();
                     console.log('Cursor position:', cursor);
                     
-                    const hexId = this.generateHexId();
                     console.log('Generated hex ID:', hexId);
                     
                     const selection = editor.getSelection();
@@ -735,11 +1606,11 @@ ${errorMessage}
             }
         });
 
-        // Simple curl command with NDJSON streaming support
+        // Send the fenced request in the selection to Perplexica, streaming below the note
         this.addCommand({
             id: 'curl-request',
-            name: 'Curl Request',
-            editorCallback: (editor: Editor) => {
+            name: 'Stream Request to Perplexica',
+            editorCallback: async (editor: Editor) => {
                 const sel = editor.getSelection() || '';
                 const json = sel.match(/```[\s\S]*?```/)?.[0].replace(/```[\s\S]*?\n|```/g, '') || '';
                 if (!json) { 
@@ -747,64 +1618,140 @@ ${errorMessage}
                     return; 
                 }
 
-                // Save current content and add a new line for the response
-                const currentContent = editor.getValue();
-                editor.setValue(currentContent + '\n'); // Add new line for response
-                
-                // Use spawn instead of exec to handle streaming
-                const { spawn } = require('child_process');
-                const echo = spawn('echo', [json]);
-                const curl = spawn('curl', [
-                    '-s',
-                    '-X', 'POST',
-                    '-H', 'Content-Type: application/json',
-                    '--no-buffer',
-                    '--data-binary', '@-',
-                    'http://localhost:3030/api/search'
-                ]);
-
-                let responseText = '';
-                
-                // Pipe echo to curl
-                echo.stdout.pipe(curl.stdin);
-
-                // Handle curl output
-                curl.stdout.on('data', (data: Buffer) => {
-                    const lines = data.toString().split('\n').filter(line => line.trim());
-                    
-                    lines.forEach(line => {
-                        try {
-                            const message = JSON.parse(line);
-                            if (message.type === 'response' && message.data) {
-                                responseText += message.data;
-                                
-                                // Update the editor with the current response
-                                const currentContent = editor.getValue();
-                                const newContent = currentContent + message.data;
-                                editor.setValue(newContent);
-                                
-                                // Move cursor to end of content
-                                const pos = editor.offsetToPos(newContent.length);
-                                editor.setCursor(pos);
-                            }
-                        } catch (e) {
-                            // Ignore JSON parse errors for partial lines
-                        }
-                    });
+                // Stream the answer below the existing content
+                const output = EditorStreamWriter.atEnd(editor);
+                output.write('\n');
+                await this.sendRequest(json, editor, {
+                    endpoint: this.getDefaultEndpoint(),
+                    writer: output,
+                    label: 'Perplexica'
+                }).catch(error => {
+                    console.error('Error in curl-request:', error);
                 });
+            }
+        });
 
-                curl.stderr.on('data', (data: Buffer) => {
-                    new Notice(`Error: ${data.toString()}`);
-                });
+        this.addCommand({
+            id: 'send-templated-request',
+            name: 'Send Request from Preset',
+            editorCallback: (editor) => {
+                new PresetSuggestModal(this.app, this.settings.presets, (preset) => {
+                    void this.sendPreset(preset, editor);
+                }).open();
+            }
+        });
 
-                curl.on('close', (code: number) => {
-                    if (code !== 0) {
-                        new Notice(`Process exited with code ${code}`);
-                    }
-                });
+        this.addCommand({
+            id: 'send-preset-choose-output',
+            name: 'Send Request from Preset (choose output)',
+            editorCallback: (editor) => {
+                new PresetSuggestModal(this.app, this.settings.presets, (preset) => {
+                    new OutputModeSuggestModal(this.app, (mode) => {
+                        const current = preset.output ?? this.settings.defaultOutput;
+                        const heading = mode === 'under-heading' ? current.heading : undefined;
+                        void this.sendPreset(preset, editor, heading ? { mode, heading } : { mode });
+                    }).open();
+                }).open();
+            }
+        });
+
+        this.syncPresetCommands();
+
+        this.addCommand({
+            id: 'run-template-on-file',
+            name: 'Run template on this file',
+            editorCallback: (editor, ctx) => {
+                if (!ctx.file) {
+                    new Notice('No active file');
+                    return;
+                }
+                this.pickTemplate(editor, ctx.file);
+            }
+        });
+
+        this.addCommand({
+            id: 'run-default-template',
+            name: 'Run default template for this folder',
+            editorCallback: (editor, ctx) => {
+                if (!ctx.file) {
+                    new Notice('No active file');
+                    return;
+                }
+                this.runDefaultTemplate(editor, ctx.file);
+            }
+        });
+
+        this.addCommand({
+            id: 'regenerate-section',
+            name: 'Regenerate section under cursor',
+            editorCallback: (editor, ctx) => {
+                if (!ctx.file) {
+                    new Notice('No active file');
+                    return;
+                }
+                this.pickSectionTemplate(editor, ctx.file);
+            }
+        });
+
+        this.addCommand({
+            id: 'toggle-preview-changes',
+            name: 'Toggle change preview',
+            callback: async () => {
+                this.settings.previewChanges = !this.settings.previewChanges;
+                await this.saveSettings();
+                new Notice(this.settings.previewChanges
+                    ? 'Answers are previewed as a diff before writing'
+                    : 'Answers are written as they stream');
+            }
+        });
+
+        this.addCommand({
+            id: 'check-templates',
+            name: 'Check templates',
+            callback: () => this.checkTemplates()
+        });
+
+        this.addCommand({
+            id: 'run-cf-block',
+            name: 'Run cf block under cursor',
+            editorCallback: async (editor, ctx) => {
+                const fence = findCfFence(editor.getValue().split('\n'), editor.getCursor().line);
+                if (!fence || !ctx.file) {
+                    new Notice('Place the cursor inside a cf block');
+                    return;
+                }
+                try {
+                    await this.runCfFence(editor, ctx.file, fence);
+                } catch (error) {
+                    new Notice(`Error: ${error instanceof Error ? error.message : String(error)}`);
+                }
             }
         });
 
+        this.addCommand({
+            id: 'run-template-on-folder',
+            name: 'Run template on this folder',
+            editorCallback: (_editor, ctx) => {
+                if (!ctx.file) {
+                    new Notice('No active file');
+                    return;
+                }
+                this.pickBatchTemplate(ctx.file);
+            }
+        });
+
+        this.addCommand({
+            id: 'resume-template-batch',
+            name: 'Resume template batch',
+            callback: () => void this.resumeBatch()
+        });
+
+        this.addCommand({
+            id: 'show-template-batch',
+            name: 'Show template batch progress',
+            callback: () => this.openBatchProgress()
+        });
+
         this.addCommand({
             id: 'send-request-from-selection',
             name: 'Send Request from Selection',
@@ -822,19 +1769,27 @@ ${errorMessage}
                         throw new Error('No valid JSON found in selection');
                     }
 
-                    const jsonString = jsonMatch[1].trim();
+                    // Prose selected alongside the code block fills {{selection}}
+                    const surrounding = selection.replace(jsonMatch[0], '').trim();
+                    const jsonString = await this.interpolateRequest(
+                        this.app.workspace.getActiveFile(), jsonMatch[1].trim(), surrounding, editor.getCursor('from').line
+                    );
                     // Log the extracted JSON for debugging
                     console.log('Extracted JSON:', jsonString);
                     
                     // Validate JSON syntax
                     try {
                         JSON.parse(jsonString); // Just validate, we'll use the string as-is
-                        await this.sendRequest(jsonString, editor);
                     } catch (e: unknown) {
                         const error = e as Error;
                         console.error('JSON parse error:', error);
                         throw new Error(`Invalid JSON in code block: ${error.message}`);
                     }
+                    // Never replace the selection here: it holds the request itself
+                    const output = this.settings.defaultOutput.mode === 'replace-selection'
+                        ? { mode: 'below-selection' as const }
+                        : undefined;
+                    await this.sendRequest(jsonString, editor, output ? { output } : {});
                 } catch (error) {
                     console.error('Error processing request:', error);
                     new Notice(`Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -899,38 +1854,423 @@ class ContentFarmSettingTab extends PluginSettingTab {
             })
         );
 
-        // Create a textarea for JSON configuration
-        const jsonSetting = new Setting(containerEl)
-            .setName('Request Body Template')
-            .setDesc('Enter your request body template as JSON');
-            
-        // Create a textarea element
-        const textArea = document.createElement('textarea');
-        textArea.rows = 10;
-        textArea.cols = 50;
-        textArea.style.width = '100%';
-        textArea.style.minHeight = '300px';
-        textArea.style.fontFamily = 'monospace';
-        textArea.placeholder = '{\n  "chatModel": {\n    "provider": "openai",\n    "name": "gpt-4o-mini"\n  },\n  "embeddingModel": {\n    "provider": "openai",\n    "name": "text-embedding-3-large"\n  },\n  "optimizationMode": "speed",\n  "focusMode": "webSearch",\n  "query": "What is Perplexica",\n  "history": [\n    ["human", "Hi, how are you?"],\n    ["assistant", "I am doing well, how can I help you today?"]\n  ],\n  "systemInstructions": "Focus on providing technical details about Perplexica\\\'s architecture.",\n  "stream": false\n}';
-        
-        // Set initial value if it exists
-        if (this.plugin.settings.requestBodyTemplate) {
-            try {
-                const config = JSON.parse(this.plugin.settings.requestBodyTemplate);
-                textArea.value = JSON.stringify(config, null, 2);
-            } catch (e) {
-                // If not valid JSON, use as is
-                textArea.value = this.plugin.settings.requestBodyTemplate;
+        new Setting(containerEl)
+            .setName('Verbose diagnostics')
+            .setDesc('Write connection diagnostics and error details into the note. When off, use the "Check LLM connection" command instead.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.verboseDiagnostics)
+                .onChange(async (value: boolean) => {
+                    this.plugin.settings.verboseDiagnostics = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Templates folder')
+            .setDesc('Vault folder holding cft templates for "Run template on this file".')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_TEMPLATES_ROOT)
+                .setValue(this.plugin.settings.templatesRoot)
+                .onChange(async (value: string) => {
+                    this.plugin.settings.templatesRoot = value.trim() || DEFAULT_TEMPLATES_ROOT;
+                    await this.plugin.saveSettings();
+                    await this.plugin.reloadTemplates();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Verbs folder')
+            .setDesc('Vault folder holding cf verbs: <verb>/<variant>.md, with default.md for the plain verb.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_VERBS_ROOT)
+                .setValue(this.plugin.settings.verbsRoot)
+                .onChange(async (value: string) => {
+                    this.plugin.settings.verbsRoot = value.trim() || DEFAULT_VERBS_ROOT;
+                    await this.plugin.saveSettings();
+                    await this.plugin.reloadTemplates();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Batch concurrency')
+            .setDesc('How many files "Run template on this folder" fills at once.')
+            .addSlider(slider => slider
+                .setLimits(1, 8, 1)
+                .setValue(this.plugin.settings.batchConcurrency)
+                .setDynamicTooltip()
+                .onChange(async (value: number) => {
+                    this.plugin.settings.batchConcurrency = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Preview changes')
+            .setDesc('Collect each answer and show it as a diff against the note, accepting changes per hunk, instead of writing as it streams. Template runs may then replace a body that already has content.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.previewChanges)
+                .onChange(async (value: boolean) => {
+                    this.plugin.settings.previewChanges = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Citation IDs')
+            .setDesc('Derived IDs come from the source\'s DOI or normalised URL, so a source carries the same marker in every note and on the published site. If another source already has the ID, it grows by a character.')
+            .addDropdown(dropdown => {
+                (Object.keys(CITATION_ID_STRATEGY_LABELS) as CitationIdStrategy[])
+                    .forEach(strategy => dropdown.addOption(strategy, CITATION_ID_STRATEGY_LABELS[strategy]));
+                dropdown
+                    .setValue(this.plugin.settings.citationIds)
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.citationIds = value as CitationIdStrategy;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Reuse citation IDs across notes')
+            .setDesc('When merging duplicate citations, give a source the hex ID another note already uses for the same URL.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.reuseCitationIds)
+                .onChange(async (value: boolean) => {
+                    this.plugin.settings.reuseCitationIds = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Reasoning blocks')
+            .setDesc('What to do with the <think> blocks reasoning models stream before their answer.')
+            .addDropdown(dropdown => {
+                (Object.keys(THINK_MODE_LABELS) as ThinkMode[]).forEach(mode => dropdown.addOption(mode, THINK_MODE_LABELS[mode]));
+                dropdown
+                    .setValue(this.plugin.settings.thinkBlocks)
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.thinkBlocks = value as ThinkMode;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Request timeout')
+            .setDesc('Seconds to wait for a response, or for the next part of a streamed answer, before giving up.')
+            .addText(text => text
+                .setPlaceholder('300')
+                .setValue(String(this.plugin.settings.requestTimeoutSeconds))
+                .onChange(async (value: string) => {
+                    const seconds = Number(value);
+                    if (!Number.isFinite(seconds) || seconds <= 0) return;
+                    this.plugin.settings.requestTimeoutSeconds = seconds;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Request retries')
+            .setDesc('How often to retry after a network error, timeout, server error or rate limit. Retries back off exponentially and respect Retry-After.')
+            .addSlider(slider => slider
+                .setLimits(0, 5, 1)
+                .setValue(this.plugin.settings.requestRetries)
+                .setDynamicTooltip()
+                .onChange(async (value: number) => {
+                    this.plugin.settings.requestRetries = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        const defaultOutput = this.plugin.settings.defaultOutput;
+        new Setting(containerEl)
+            .setName('Default output placement')
+            .setDesc('Where generated text goes when a preset does not choose. The heading is used by "Append under a heading".')
+            .addDropdown(dropdown => {
+                (Object.keys(OUTPUT_MODE_LABELS) as OutputMode[]).forEach(mode => dropdown.addOption(mode, OUTPUT_MODE_LABELS[mode]));
+                dropdown
+                    .setValue(defaultOutput.mode)
+                    .onChange(async (value: string) => {
+                        defaultOutput.mode = value as OutputMode;
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addText(text => text
+                .setPlaceholder('Generated')
+                .setValue(defaultOutput.heading ?? '')
+                .onChange(async (value: string) => {
+                    if (value.trim()) {
+                        defaultOutput.heading = value.trim();
+                    } else {
+                        delete defaultOutput.heading;
+                    }
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        this.displayPresets(containerEl);
+        this.displayEndpoints(containerEl);
+    }
+
+    private displayPresets(containerEl: HTMLElement): void {
+        const defaultOutput = this.plugin.settings.defaultOutput;
+        containerEl.createEl('h3', { text: 'Request Presets' });
+        containerEl.createEl('p', {
+            text: 'Request bodies as JSON. Placeholders are filled from the active note: ' +
+                '{{selection}}, {{title}}, {{path}}, {{folder}}, {{frontmatter}}, {{frontmatter.field}}, ' +
+                '{{heading}}, {{headingPath}}, {{date}}, {{date:FORMAT}}, {{linkedNotes}}. Escape with \\{{. ' +
+                'Each preset is also available in the command palette as "Send preset: <name>".',
+            cls: 'setting-item-description'
+        });
+
+        const presets = this.plugin.settings.presets;
+
+        presets.forEach((preset, index) => {
+            const presetSetting = new Setting(containerEl)
+                .addText(text => text
+                    .setPlaceholder('Preset name')
+                    .setValue(preset.name)
+                    .onChange(async (value: string) => {
+                        preset.name = value;
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Active endpoint');
+                    this.plugin.settings.endpoints.forEach(endpoint => dropdown.addOption(endpoint.id, endpoint.name));
+                    dropdown
+                        .setValue(preset.endpointId ?? '')
+                        .onChange(async (value: string) => {
+                            if (value) {
+                                preset.endpointId = value;
+                            } else {
+                                delete preset.endpointId;
+                            }
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Default output');
+                    (Object.keys(OUTPUT_MODE_LABELS) as OutputMode[]).forEach(mode => dropdown.addOption(mode, OUTPUT_MODE_LABELS[mode]));
+                    dropdown
+                        .setValue(preset.output?.mode ?? '')
+                        .onChange(async (value: string) => {
+                            if (value) {
+                                preset.output = { ...preset.output, mode: value as OutputMode };
+                            } else {
+                                delete preset.output;
+                            }
+                            await this.plugin.saveSettings();
+                            this.display();
+                        });
+                })
+                .addExtraButton(button => button
+                    .setIcon('copy')
+                    .setTooltip('Duplicate preset')
+                    .onClick(async () => {
+                        const copy = presetService.duplicate(preset, presets);
+                        presets.splice(index + 1, 0, copy);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+                )
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete preset')
+                    .setDisabled(presets.length === 1)
+                    .onClick(async () => {
+                        if (presets.length === 1) return;
+                        presets.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+                );
+
+            // Create a textarea element
+            const textArea = document.createElement('textarea');
+            textArea.rows = 10;
+            textArea.style.width = '100%';
+            textArea.style.minHeight = '200px';
+            textArea.style.fontFamily = 'monospace';
+            textArea.value = preset.body;
+
+            // Add input event listener
+            textArea.addEventListener('input', async () => {
+                preset.body = textArea.value;
+                await this.plugin.saveSettings();
+            });
+
+            presetSetting.settingEl.insertAdjacentElement('afterend', textArea);
+
+            const output = preset.output;
+            if (output?.mode === 'under-heading') {
+                const headingSetting = new Setting(containerEl)
+                    .setName('Heading')
+                    .setDesc('Output is appended under this heading, which is created if missing.')
+                    .addText(text => text
+                        .setPlaceholder(defaultOutput.heading ?? 'Generated')
+                        .setValue(output.heading ?? '')
+                        .onChange(async (value: string) => {
+                            if (value.trim()) {
+                                output.heading = value.trim();
+                            } else {
+                                delete output.heading;
+                            }
+                            await this.plugin.saveSettings();
+                        })
+                    );
+                textArea.insertAdjacentElement('beforebegin', headingSetting.settingEl);
             }
-        }
-        
-        // Add input event listener
-        textArea.addEventListener('input', async () => {
-            this.plugin.settings.localLLMPath = textArea.value;
-            await this.plugin.saveSettings();
         });
-        
-        // Add the textarea to the setting
-        jsonSetting.settingEl.appendChild(textArea);
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add preset')
+                .onClick(async () => {
+                    const preset = presetService.create(`Preset ${presets.length + 1}`, this.plugin.settings.requestBodyTemplate);
+                    presets.push(preset);
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
+    }
+
+    private displayEndpoints(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: 'LLM Endpoints' });
+
+        const endpoints = this.plugin.settings.endpoints;
+
+        new Setting(containerEl)
+            .setName('Active endpoint')
+            .setDesc('Where requests are sent. The default uses Perplexica at the Local LLM Path above.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Perplexica (Local LLM Path)');
+                endpoints.forEach(endpoint => dropdown.addOption(endpoint.id, endpoint.name));
+                dropdown
+                    .setValue(this.plugin.settings.activeEndpointId)
+                    .onChange(async (value: string) => {
+                        this.plugin.settings.activeEndpointId = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        endpoints.forEach((endpoint, index) => {
+            const provider = providerRegistry.get(endpoint.provider);
+
+            new Setting(containerEl)
+                .setName(endpoint.name)
+                .setDesc(`${provider.label} · ${endpoint.url || provider.defaultUrl}`)
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove endpoint')
+                    .onClick(async () => {
+                        endpoints.splice(index, 1);
+                        if (this.plugin.settings.activeEndpointId === endpoint.id) {
+                            this.plugin.settings.activeEndpointId = '';
+                        }
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+                );
+
+            new Setting(containerEl)
+                .setClass('content-farm-endpoint-detail')
+                .addText(text => text
+                    .setPlaceholder('Name')
+                    .setValue(endpoint.name)
+                    .onChange(async (value: string) => {
+                        endpoint.name = value;
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addDropdown(dropdown => {
+                    providerRegistry.list().forEach(p => dropdown.addOption(p.id, p.label));
+                    dropdown
+                        .setValue(endpoint.provider)
+                        .onChange(async (value: string) => {
+                            endpoint.provider = value as ProviderId;
+                            await this.plugin.saveSettings();
+                            this.display();
+                        });
+                })
+                .addText(text => text
+                    .setPlaceholder(provider.defaultUrl)
+                    .setValue(endpoint.url)
+                    .onChange(async (value: string) => {
+                        endpoint.url = value.trim();
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addText(text => text
+                    .setPlaceholder('Model (e.g. llama3.2:latest)')
+                    .setValue(endpoint.model)
+                    .onChange(async (value: string) => {
+                        endpoint.model = value.trim();
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addText(text => {
+                    text.inputEl.type = 'password';
+                    text
+                        .setPlaceholder('API key (optional)')
+                        .setValue(endpoint.apiKey)
+                        .onChange(async (value: string) => {
+                            endpoint.apiKey = value.trim();
+                            await this.plugin.saveSettings();
+                        });
+                });
+
+            const setPrice = (key: 'inputCostPerMillion' | 'outputCostPerMillion') => async (value: string) => {
+                const price = Number(value);
+                if (value.trim() && Number.isFinite(price) && price >= 0) {
+                    endpoint[key] = price;
+                } else {
+                    delete endpoint[key];
+                }
+                await this.plugin.saveSettings();
+            };
+            new Setting(containerEl)
+                .setClass('content-farm-endpoint-detail')
+                .setDesc('Prices in USD per million tokens, for "Show token usage". Leave empty for free or local models.')
+                .addText(text => text
+                    .setPlaceholder('Prompt $/M')
+                    .setValue(endpoint.inputCostPerMillion?.toString() ?? '')
+                    .onChange(setPrice('inputCostPerMillion'))
+                )
+                .addText(text => text
+                    .setPlaceholder('Completion $/M')
+                    .setValue(endpoint.outputCostPerMillion?.toString() ?? '')
+                    .onChange(setPrice('outputCostPerMillion'))
+                );
+
+            if (endpoint.provider === 'openai-compatible' || endpoint.provider === 'lmstudio') {
+                new Setting(containerEl)
+                    .setClass('content-farm-endpoint-detail')
+                    .setName('Stream token usage')
+                    .setDesc('Ask the server for token counts in streamed answers. Leave off if it rejects "stream_options"; usage is then estimated.')
+                    .addToggle(toggle => toggle
+                        .setValue(endpoint.streamUsage ?? false)
+                        .onChange(async (value: boolean) => {
+                            endpoint.streamUsage = value;
+                            await this.plugin.saveSettings();
+                        })
+                    );
+            }
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add endpoint')
+                .onClick(async () => {
+                    endpoints.push({
+                        id: randomBytes(4).toString('hex'),
+                        name: `Endpoint ${endpoints.length + 1}`,
+                        provider: 'ollama',
+                        url: '',
+                        model: '',
+                        apiKey: ''
+                    });
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
     }
 }
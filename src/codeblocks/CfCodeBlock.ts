@@ -0,0 +1,51 @@
+import { RunnableCodeBlock } from './RunnableCodeBlock';
+import type { RunCodeBlock } from './RunnableCodeBlock';
+import type { CfHeader } from '../services/cfFence';
+import type { VerbResolution } from '../services/verbRegistry';
+
+/**
+ * Renders a `cf` verb fence with the verb it resolves to, a Run button and a status line
+ */
+export class CfCodeBlock extends RunnableCodeBlock {
+    protected readonly language = 'cf';
+
+    constructor(
+        containerEl: HTMLElement,
+        source: string,
+        sourcePath: string,
+        private headerLine: string,
+        private header: CfHeader | null,
+        private resolution: VerbResolution | null,
+        onRun: RunCodeBlock
+    ) {
+        super(containerEl, source, sourcePath, onRun);
+    }
+
+    protected override get runKey(): string {
+        return `${this.sourcePath}\n${this.headerLine}\n${this.source}`;
+    }
+
+    protected describe(header: HTMLElement): string | null {
+        if (!this.header || this.header.tokens.length === 0) {
+            const problem = 'A cf block needs a verb, e.g. ```cf ask';
+            header.createSpan({ cls: 'content-farm-request-invalid', text: `✗ ${problem}` });
+            return problem;
+        }
+        if (!this.resolution) {
+            const problem = `Unknown verb: ${this.header.tokens.join(' ')}`;
+            header.createSpan({ cls: 'content-farm-request-invalid', text: `✗ ${problem}` });
+            return problem;
+        }
+
+        const { verb, name, modifiers } = this.resolution;
+        const details = [
+            ...(modifiers.length > 0 ? [`modifiers: ${modifiers.join(', ')}`] : []),
+            ...(Object.keys(this.header.args).length > 0 ? [`args: ${Object.keys(this.header.args).join(', ')}`] : [])
+        ];
+        header.createSpan({
+            cls: 'content-farm-request-valid',
+            text: `cf ${name} · ${verb.title}${details.length > 0 ? ` · ${details.join(' · ')}` : ''}`
+        });
+        return null;
+    }
+}
@@ -0,0 +1,34 @@
+import { RunnableCodeBlock } from './RunnableCodeBlock';
+import { interpolateJson } from '../utils/interpolate';
+
+export const REQUEST_FENCE_LANGUAGE = 'requestjson--perplexica';
+
+/**
+ * Renders a request fence with a JSON validity indicator, a Run button and a status line
+ */
+export class RequestCodeBlock extends RunnableCodeBlock {
+    protected readonly language = REQUEST_FENCE_LANGUAGE;
+
+    protected describe(header: HTMLElement): string | null {
+        const invalid = this.validate();
+        header.createSpan({
+            cls: invalid ? 'content-farm-request-invalid' : 'content-farm-request-valid',
+            text: invalid ? `✗ Invalid JSON: ${invalid}` : '✓ Valid JSON'
+        });
+        return invalid;
+    }
+
+    /**
+     * @returns The parse error, or null if the block is valid JSON once placeholders are filled
+     */
+    private validate(): string | null {
+        // Any value will do: placeholders are only filled at run time
+        const { text } = interpolateJson(this.source, () => 0);
+        try {
+            JSON.parse(text);
+            return null;
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+    }
+}
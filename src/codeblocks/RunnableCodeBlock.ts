@@ -0,0 +1,126 @@
+import { MarkdownRenderChild } from 'obsidian';
+import type { RequestStatus } from '../services/historyStore';
+
+interface BlockRun {
+    startedAt: number;
+    finishedAt?: number;
+    status?: RequestStatus;
+    error?: string;
+}
+
+/**
+ * Runs by note path and block text. Writing the answer re-renders the note,
+ * which replaces the block's element; the new element picks its run back up here.
+ */
+const runs = new Map<string, BlockRun>();
+/** How long a finished run's status is kept for blocks that render again */
+const FINISHED_RUN_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Forget finished runs nobody is likely to look at again, e.g. of blocks
+ * since edited or deleted
+ */
+function pruneRuns(now: number): void {
+    runs.forEach((run, key) => {
+        if (run.finishedAt !== undefined && now - run.finishedAt > FINISHED_RUN_TTL_MS) runs.delete(key);
+    });
+}
+
+export type RunCodeBlock = () => Promise<RequestStatus>;
+
+/**
+ * A rendered code block with a header, a Run button and a live status line
+ */
+export abstract class RunnableCodeBlock extends MarkdownRenderChild {
+    private statusEl!: HTMLElement;
+    private runButton!: HTMLButtonElement;
+    /** Why the block can't run, or null when it can */
+    private blocked: string | null = null;
+
+    constructor(
+        containerEl: HTMLElement,
+        protected source: string,
+        protected sourcePath: string,
+        private onRun: RunCodeBlock
+    ) {
+        super(containerEl);
+    }
+
+    /** Fence language, used for the code element's class */
+    protected abstract readonly language: string;
+
+    /**
+     * Fill the header with what the block will do
+     * @returns Why the block can't run, or null when it can
+     */
+    protected abstract describe(header: HTMLElement): string | null;
+
+    /** Identifies the block's run across re-renders */
+    protected get runKey(): string {
+        return `${this.sourcePath}\n${this.source}`;
+    }
+
+    onload(): void {
+        const el = this.containerEl;
+        el.addClass('content-farm-request-block');
+
+        const header = el.createDiv({ cls: 'content-farm-request-block-header' });
+        this.blocked = this.describe(header);
+        this.runButton = header.createEl('button', { text: 'Run', cls: 'mod-cta' });
+        this.registerDomEvent(this.runButton, 'click', () => void this.run());
+
+        el.createEl('pre').createEl('code', { text: this.source, cls: `language-${this.language}` });
+        this.statusEl = el.createDiv({ cls: 'content-farm-request-status' });
+
+        this.render();
+        this.registerInterval(window.setInterval(() => this.render(), 1000));
+    }
+
+    private async run(): Promise<void> {
+        const current = runs.get(this.runKey);
+        if (current && !current.status) return;
+
+        const run: BlockRun = { startedAt: Date.now() };
+        pruneRuns(run.startedAt);
+        runs.set(this.runKey, run);
+        this.render();
+
+        try {
+            run.status = await this.onRun();
+        } catch (error) {
+            run.status = 'error';
+            run.error = error instanceof Error ? error.message : String(error);
+        } finally {
+            run.finishedAt = Date.now();
+        }
+        this.render();
+    }
+
+    private render(): void {
+        const run = runs.get(this.runKey);
+        const running = run !== undefined && !run.status;
+        this.runButton.setText(running ? 'Running…' : 'Run');
+        this.runButton.disabled = running || this.blocked !== null;
+
+        if (!run) {
+            this.statusEl.setText('');
+            return;
+        }
+
+        const seconds = Math.floor(((run.finishedAt ?? Date.now()) - run.startedAt) / 1000);
+        switch (run.status) {
+            case undefined:
+                this.statusEl.setText(`⏳ Running · ${seconds}s`);
+                break;
+            case 'success':
+                this.statusEl.setText(`✓ Done in ${seconds}s`);
+                break;
+            case 'cancelled':
+                this.statusEl.setText(`Cancelled after ${seconds}s`);
+                break;
+            case 'error':
+                this.statusEl.setText(`✗ Failed after ${seconds}s${run.error ? `: ${run.error}` : ''}`);
+                break;
+        }
+    }
+}
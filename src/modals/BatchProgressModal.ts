@@ -0,0 +1,110 @@
+import { Modal } from 'obsidian';
+import type { App } from 'obsidian';
+import type { BatchFile, BatchFileStatus, TemplateBatch } from '../services/templateBatch';
+
+const STATUS_ICONS: Record<BatchFileStatus, string> = {
+    pending: '·',
+    running: '⏳',
+    done: '✅',
+    skipped: '⏭',
+    error: '❌',
+    cancelled: '⏹'
+};
+
+/** Rendering every row of a 1600-file batch would make each update slow */
+const MAX_ROWS = 200;
+
+export class BatchProgressModal extends Modal {
+    private unsubscribe: (() => void) | null = null;
+    private renderTimer: number | null = null;
+
+    constructor(
+        app: App,
+        private batch: TemplateBatch,
+        private onResume: () => void
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        this.modalEl.addClass('content-farm-batch-modal');
+        this.unsubscribe = this.batch.onChange(() => this.scheduleRender());
+        this.render();
+    }
+
+    onClose() {
+        this.unsubscribe?.();
+        if (this.renderTimer !== null) window.clearTimeout(this.renderTimer);
+        this.contentEl.empty();
+    }
+
+    private scheduleRender() {
+        if (this.renderTimer !== null) return;
+        this.renderTimer = window.setTimeout(() => {
+            this.renderTimer = null;
+            this.render();
+        }, 250);
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Template Batch' });
+
+        const state = this.batch.current;
+        if (!state) {
+            contentEl.createEl('p', { text: 'No template batch has been run.' });
+            return;
+        }
+
+        contentEl.createEl('p', {
+            text: `${state.templatePath} on ${state.folder || '/'} · started ${new Date(state.startedAt).toLocaleString()}`,
+            cls: 'setting-item-description'
+        });
+
+        const counts = this.batch.counts();
+        const finished = state.files.length - counts.pending - counts.running;
+        const progress = contentEl.createEl('progress', { cls: 'content-farm-batch-progress' });
+        progress.max = Math.max(1, state.files.length);
+        progress.value = finished;
+
+        contentEl.createEl('p', {
+            text: `${finished} of ${state.files.length} files · ${counts.running} running · ` +
+                `${counts.done} done · ${counts.skipped} skipped · ${counts.error} failed · ${counts.cancelled} cancelled`
+        });
+
+        const buttons = contentEl.createDiv('content-farm-batch-buttons');
+        if (this.batch.running) {
+            buttons.createEl('button', { text: 'Cancel batch' }).onclick = () => this.batch.cancel();
+        } else {
+            if (this.batch.resumable) {
+                const resume = buttons.createEl('button', { text: 'Resume', cls: 'mod-cta' });
+                resume.onclick = () => this.onResume();
+            }
+            buttons.createEl('button', { text: 'Clear' }).onclick = async () => {
+                await this.batch.clear();
+                this.close();
+            };
+        }
+
+        const listEl = contentEl.createDiv('content-farm-batch-list');
+        this.rows(state.files).forEach(file => {
+            const row = listEl.createDiv('content-farm-batch-row');
+            row.createSpan({ text: STATUS_ICONS[file.status] });
+            row.createSpan({ text: file.path, cls: 'content-farm-batch-path' });
+            if (file.error) {
+                row.createSpan({ text: file.error, cls: 'content-farm-batch-error' });
+            }
+        });
+    }
+
+    /**
+     * Running and failed files first, then the rest in batch order
+     */
+    private rows(files: BatchFile[]): BatchFile[] {
+        const rank = (file: BatchFile) => file.status === 'running' ? 0 : file.status === 'error' ? 1 : 2;
+        return [...files]
+            .sort((a, b) => rank(a) - rank(b))
+            .slice(0, MAX_ROWS);
+    }
+}
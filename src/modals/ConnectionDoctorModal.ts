@@ -0,0 +1,81 @@
+import { Modal, Notice } from 'obsidian';
+import type { App } from 'obsidian';
+import { connectionDoctor } from '../services/connectionDoctor';
+import type { ProbeResult } from '../services/connectionDoctor';
+
+export class ConnectionDoctorModal extends Modal {
+    private resultsEl!: HTMLElement;
+
+    constructor(
+        app: App,
+        private currentUrl: string,
+        private onSave: (url: string) => Promise<void>
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Check LLM Connection' });
+        contentEl.createEl('p', {
+            text: `Configured URL: ${this.currentUrl}`,
+            cls: 'setting-item-description'
+        });
+
+        this.resultsEl = contentEl.createDiv('content-farm-doctor-results');
+
+        const rerunButton = contentEl.createEl('button', { text: 'Check again' });
+        rerunButton.onclick = () => this.runChecks();
+
+        void this.runChecks();
+    }
+
+    private async runChecks() {
+        this.resultsEl.empty();
+        this.resultsEl.createEl('p', { text: 'Probing candidate hosts...' });
+
+        const results = await connectionDoctor.probeAll(connectionDoctor.candidateUrls(this.currentUrl));
+        this.resultsEl.empty();
+        results.forEach(result => this.renderResult(result));
+
+        if (!results.some(result => result.success)) {
+            this.renderTroubleshooting();
+        }
+    }
+
+    private renderResult(result: ProbeResult) {
+        const row = this.resultsEl.createDiv('content-farm-doctor-row');
+        row.createSpan({ text: result.success ? '✅' : '❌' });
+        row.createEl('code', { text: result.url });
+        row.createSpan({
+            text: result.success ? `${result.latencyMs} ms` : result.error ?? 'No response',
+            cls: 'setting-item-description'
+        });
+
+        if (result.url === this.currentUrl) {
+            row.createSpan({ text: 'current', cls: 'content-farm-doctor-current' });
+        } else if (result.success) {
+            const saveButton = row.createEl('button', { text: 'Use this URL', cls: 'mod-cta' });
+            saveButton.onclick = async () => {
+                await this.onSave(result.url);
+                this.currentUrl = result.url;
+                new Notice(`LLM URL updated to: ${result.url}`);
+                await this.runChecks();
+            };
+        }
+    }
+
+    private renderTroubleshooting() {
+        this.resultsEl.createEl('h3', { text: 'Nothing responded' });
+        const list = this.resultsEl.createEl('ol');
+        list.createEl('li', { text: 'Check that Perplexica is running in Docker (`docker ps`).' });
+        list.createEl('li', { text: 'Run `docker network inspect bridge` and look for the Gateway IP address.' });
+        list.createEl('li', { text: 'Test from inside the container: `docker exec -it <container_id> curl -v http://host.docker.internal:3030/api/search`.' });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
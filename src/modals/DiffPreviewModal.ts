@@ -0,0 +1,98 @@
+import { Modal } from 'obsidian';
+import type { App } from 'obsidian';
+import type { DiffHunks } from '../utils/lineDiff';
+
+/** Unchanged lines shown around each change; the rest are folded */
+const CONTEXT_LINES = 3;
+
+/**
+ * Side-by-side preview of generated output against the note, with a
+ * checkbox per hunk. Closing without applying discards the output.
+ */
+export class DiffPreviewModal extends Modal {
+    private accepted: boolean[];
+    private applied = false;
+
+    constructor(
+        app: App,
+        private title: string,
+        private diff: DiffHunks,
+        private onApply: (accepted: boolean[] | null) => void
+    ) {
+        super(app);
+        this.accepted = diff.hunks.map(() => true);
+    }
+
+    onOpen() {
+        this.modalEl.addClass('content-farm-diff-modal');
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        if (!this.applied) this.onApply(null);
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: `Preview: ${this.title}` });
+
+        const { hunks, trailing } = this.diff;
+        if (hunks.length === 0) {
+            contentEl.createEl('p', { text: 'The output makes no changes to the note.' });
+        }
+
+        const table = contentEl.createDiv('content-farm-diff-table');
+        const header = table.createDiv('content-farm-diff-row content-farm-diff-header');
+        header.createDiv({ text: '' });
+        header.createDiv({ text: 'Current' });
+        header.createDiv({ text: 'Proposed' });
+
+        hunks.forEach((hunk, index) => {
+            this.renderContext(table, hunk.context, index === 0 ? 'start' : 'middle');
+
+            const row = table.createDiv('content-farm-diff-row content-farm-diff-hunk');
+            const toggle = row.createDiv().createEl('input', { type: 'checkbox' });
+            toggle.checked = this.accepted[index]!;
+            toggle.title = 'Accept this change';
+            toggle.onchange = () => {
+                this.accepted[index] = toggle.checked;
+                row.toggleClass('is-rejected', !toggle.checked);
+            };
+            row.createEl('pre', { text: hunk.removed.join('\n'), cls: 'content-farm-diff-removed' });
+            row.createEl('pre', { text: hunk.added.join('\n'), cls: 'content-farm-diff-added' });
+        });
+        this.renderContext(table, trailing, 'end');
+
+        const buttons = contentEl.createDiv('content-farm-batch-buttons');
+        buttons.createEl('button', { text: 'Apply selected', cls: 'mod-cta' }).onclick = () => this.apply(this.accepted);
+        buttons.createEl('button', { text: 'Accept all' }).onclick = () => this.apply(hunks.map(() => true));
+        buttons.createEl('button', { text: 'Reject all' }).onclick = () => this.close();
+    }
+
+    /**
+     * Unchanged lines, folded down to the few next to a change
+     */
+    private renderContext(table: HTMLElement, lines: string[], position: 'start' | 'middle' | 'end') {
+        if (lines.length === 0) return;
+
+        const keepBefore = position === 'start' ? 0 : CONTEXT_LINES;
+        const keepAfter = position === 'end' ? 0 : CONTEXT_LINES;
+        const shown = lines.length > keepBefore + keepAfter + 1
+            ? [...lines.slice(0, keepBefore), `⋯ ${lines.length - keepBefore - keepAfter} unchanged lines`, ...lines.slice(lines.length - keepAfter)]
+            : lines;
+
+        const row = table.createDiv('content-farm-diff-row');
+        row.createDiv();
+        const text = shown.join('\n');
+        row.createEl('pre', { text });
+        row.createEl('pre', { text });
+    }
+
+    private apply(accepted: boolean[]) {
+        this.applied = true;
+        this.onApply(accepted);
+        this.close();
+    }
+}
@@ -0,0 +1,36 @@
+import { SuggestModal } from 'obsidian';
+import type { App } from 'obsidian';
+import type { LLMEndpoint } from '../providers/types';
+import { providerRegistry } from '../providers/providerRegistry';
+
+export class EndpointSuggestModal extends SuggestModal<LLMEndpoint> {
+    constructor(
+        app: App,
+        private endpoints: LLMEndpoint[],
+        private onChoose: (endpoint: LLMEndpoint) => Promise<void>
+    ) {
+        super(app);
+        this.setPlaceholder('Choose the LLM endpoint to send requests to...');
+    }
+
+    getSuggestions(query: string): LLMEndpoint[] {
+        const lower = query.toLowerCase();
+        return this.endpoints.filter(endpoint =>
+            endpoint.name.toLowerCase().includes(lower) ||
+            endpoint.url.toLowerCase().includes(lower)
+        );
+    }
+
+    renderSuggestion(endpoint: LLMEndpoint, el: HTMLElement): void {
+        el.createEl('div', { text: endpoint.name });
+        el.createEl('small', {
+            text: `${providerRegistry.get(endpoint.provider).label} · ${endpoint.url}`
+        });
+    }
+
+    onChooseSuggestion(endpoint: LLMEndpoint): void {
+        this.onChoose(endpoint).catch(error => {
+            console.error('Error switching endpoint:', error);
+        });
+    }
+}
@@ -0,0 +1,121 @@
+import { Modal, Notice } from 'obsidian';
+import type { App } from 'obsidian';
+import type { HistoryEntry, HistoryStore } from '../services/historyStore';
+import { diffLines } from '../utils/lineDiff';
+
+export class HistoryModal extends Modal {
+    private selected: HistoryEntry | null = null;
+    private detailEl!: HTMLElement;
+
+    constructor(
+        app: App,
+        private store: HistoryStore,
+        private onReplay: (entry: HistoryEntry) => Promise<void>
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl, modalEl } = this;
+        modalEl.addClass('content-farm-history-modal');
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Request History' });
+
+        const entries = this.store.list();
+        if (entries.length === 0) {
+            contentEl.createEl('p', { text: 'No requests have been sent yet.' });
+            return;
+        }
+
+        contentEl.createEl('p', {
+            text: 'Select a request to inspect it. With one selected, use Diff on another to compare them.',
+            cls: 'setting-item-description'
+        });
+
+        const listEl = contentEl.createDiv('content-farm-history-list');
+        entries.forEach(entry => this.renderRow(listEl, entry));
+        this.detailEl = contentEl.createDiv('content-farm-history-detail');
+    }
+
+    private renderRow(listEl: HTMLElement, entry: HistoryEntry) {
+        const row = listEl.createDiv('content-farm-history-row');
+        row.createSpan({ text: `${this.statusIcon(entry)} ${new Date(entry.timestamp).toLocaleString()}` });
+        row.createSpan({ text: entry.endpointName, cls: 'content-farm-history-endpoint' });
+        row.createSpan({ text: entry.notePath || '—', cls: 'content-farm-history-note' });
+        row.createSpan({ text: `${(entry.durationMs / 1000).toFixed(1)}s` });
+
+        const viewButton = row.createEl('button', { text: 'View' });
+        viewButton.onclick = () => {
+            this.selected = entry;
+            this.showEntry(entry);
+        };
+
+        const diffButton = row.createEl('button', { text: 'Diff' });
+        diffButton.onclick = () => {
+            if (!this.selected || this.selected.id === entry.id) {
+                new Notice('Select another request with View first');
+                return;
+            }
+            this.showDiff(this.selected, entry);
+        };
+    }
+
+    private showEntry(entry: HistoryEntry) {
+        this.detailEl.empty();
+        this.detailEl.createEl('h3', { text: `${entry.endpointName} · ${entry.status}` });
+        this.detailEl.createEl('p', { text: entry.url, cls: 'setting-item-description' });
+
+        const replayButton = this.detailEl.createEl('button', { text: 'Re-run in current note', cls: 'mod-cta' });
+        replayButton.onclick = async () => {
+            this.close();
+            await this.onReplay(entry);
+        };
+
+        this.detailEl.createEl('h4', { text: 'Request' });
+        this.detailEl.createEl('pre').createEl('code', { text: entry.requestBody });
+
+        if (entry.error) {
+            this.detailEl.createEl('h4', { text: 'Error' });
+            this.detailEl.createEl('pre').createEl('code', { text: entry.error });
+        }
+
+        this.detailEl.createEl('h4', { text: 'Response' });
+        this.detailEl.createEl('pre').createEl('code', { text: entry.response || '(empty)' });
+    }
+
+    private showDiff(before: HistoryEntry, after: HistoryEntry) {
+        this.detailEl.empty();
+        this.detailEl.createEl('h3', {
+            text: `${new Date(before.timestamp).toLocaleString()} → ${new Date(after.timestamp).toLocaleString()}`
+        });
+
+        this.detailEl.createEl('h4', { text: 'Request' });
+        this.renderDiff(before.requestBody, after.requestBody);
+        this.detailEl.createEl('h4', { text: 'Response' });
+        this.renderDiff(before.response, after.response);
+    }
+
+    private renderDiff(before: string, after: string) {
+        const pre = this.detailEl.createEl('pre', { cls: 'content-farm-diff' });
+        for (const line of diffLines(before, after)) {
+            const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+            pre.createDiv({ text: prefix + line.text, cls: `content-farm-diff-${line.type}` });
+        }
+    }
+
+    private statusIcon(entry: HistoryEntry): string {
+        switch (entry.status) {
+            case 'success':
+                return '✅';
+            case 'cancelled':
+                return '⏹';
+            default:
+                return '❌';
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
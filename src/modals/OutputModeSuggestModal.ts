@@ -0,0 +1,25 @@
+import { SuggestModal } from 'obsidian';
+import type { App } from 'obsidian';
+import { OUTPUT_MODE_LABELS } from '../services/outputPlacement';
+import type { OutputMode } from '../services/outputPlacement';
+
+export class OutputModeSuggestModal extends SuggestModal<OutputMode> {
+    constructor(app: App, private onChoose: (mode: OutputMode) => void) {
+        super(app);
+        this.setPlaceholder('Where should the output go?');
+    }
+
+    getSuggestions(query: string): OutputMode[] {
+        const lower = query.toLowerCase();
+        return (Object.keys(OUTPUT_MODE_LABELS) as OutputMode[])
+            .filter(mode => OUTPUT_MODE_LABELS[mode].toLowerCase().includes(lower));
+    }
+
+    renderSuggestion(mode: OutputMode, el: HTMLElement): void {
+        el.createEl('div', { text: OUTPUT_MODE_LABELS[mode] });
+    }
+
+    onChooseSuggestion(mode: OutputMode): void {
+        this.onChoose(mode);
+    }
+}
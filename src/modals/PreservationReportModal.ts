@@ -0,0 +1,63 @@
+import { Modal } from 'obsidian';
+import type { App } from 'obsidian';
+import type { PreservationItem, PreservationReport } from '../services/linkPreservation';
+
+/**
+ * Shows which citations and wikilinks a rewrite dropped, and lets the user
+ * keep the rewrite or the original text. Closing keeps the original.
+ */
+export class PreservationReportModal extends Modal {
+    private chosen = false;
+
+    constructor(
+        app: App,
+        private report: PreservationReport,
+        private onChoose: (accepted: boolean) => void
+    ) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.modalEl.addClass('content-farm-preservation-modal');
+        contentEl.createEl('h2', { text: 'Citations and Links' });
+
+        const { restored, lost } = this.report;
+        contentEl.createEl('p', {
+            text: lost.length > 0
+                ? `The rewrite dropped ${lost.length} citation(s) or link(s) that could not be put back.`
+                : 'The rewrite dropped some citations or links; all of them were put back.',
+            cls: 'setting-item-description'
+        });
+
+        this.renderItems('Lost', lost, 'content-farm-preservation-lost');
+        this.renderItems('Re-attached', restored, 'content-farm-preservation-restored');
+
+        const buttons = contentEl.createDiv('content-farm-batch-buttons');
+        buttons.createEl('button', { text: 'Keep rewrite', cls: 'mod-cta' }).onclick = () => this.choose(true);
+        buttons.createEl('button', { text: 'Keep original' }).onclick = () => this.choose(false);
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        if (!this.chosen) this.onChoose(false);
+    }
+
+    private renderItems(title: string, items: PreservationItem[], cls: string) {
+        if (items.length === 0) return;
+        this.contentEl.createEl('h3', { text: `${title} (${items.length})` });
+        const list = this.contentEl.createEl('ul', { cls });
+        items.forEach(item => {
+            const row = list.createEl('li');
+            row.createEl('code', { text: item.raw });
+            row.createSpan({ text: ` ${item.detail}` });
+        });
+    }
+
+    private choose(accepted: boolean) {
+        this.chosen = true;
+        this.onChoose(accepted);
+        this.close();
+    }
+}
@@ -0,0 +1,26 @@
+import { FuzzySuggestModal } from 'obsidian';
+import type { App } from 'obsidian';
+import type { RequestPreset } from '../services/presetService';
+
+export class PresetSuggestModal extends FuzzySuggestModal<RequestPreset> {
+    constructor(
+        app: App,
+        private presets: RequestPreset[],
+        private onChoose: (preset: RequestPreset) => void
+    ) {
+        super(app);
+        this.setPlaceholder('Choose a request preset...');
+    }
+
+    getItems(): RequestPreset[] {
+        return this.presets;
+    }
+
+    getItemText(preset: RequestPreset): string {
+        return preset.name;
+    }
+
+    onChooseItem(preset: RequestPreset): void {
+        this.onChoose(preset);
+    }
+}
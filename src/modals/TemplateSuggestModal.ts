@@ -0,0 +1,31 @@
+import { FuzzySuggestModal } from 'obsidian';
+import type { App, FuzzyMatch } from 'obsidian';
+import type { CftTemplate } from '../services/cftTemplate';
+
+export class TemplateSuggestModal extends FuzzySuggestModal<CftTemplate> {
+    constructor(
+        app: App,
+        private templates: CftTemplate[],
+        private onChoose: (template: CftTemplate) => void
+    ) {
+        super(app);
+        this.setPlaceholder('Choose a template to run on this file...');
+    }
+
+    getItems(): CftTemplate[] {
+        return this.templates;
+    }
+
+    getItemText(template: CftTemplate): string {
+        return template.title;
+    }
+
+    renderSuggestion(match: FuzzyMatch<CftTemplate>, el: HTMLElement): void {
+        el.createEl('div', { text: match.item.title });
+        el.createEl('small', { text: match.item.description || match.item.path });
+    }
+
+    onChooseItem(template: CftTemplate): void {
+        this.onChoose(template);
+    }
+}
@@ -0,0 +1,91 @@
+import { Modal } from 'obsidian';
+import type { App } from 'obsidian';
+import type { UsageGrouping, UsageStore, UsageSummary } from '../services/usageStore';
+
+const GROUPING_LABELS: Record<UsageGrouping, string> = {
+    day: 'By day',
+    note: 'By note',
+    folder: 'By folder'
+};
+
+function formatTokens(count: number): string {
+    return count.toLocaleString();
+}
+
+function formatCost(usd: number): string {
+    return usd === 0 ? '—' : `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+}
+
+export class UsageModal extends Modal {
+    private grouping: UsageGrouping = 'day';
+
+    constructor(app: App, private store: UsageStore) {
+        super(app);
+    }
+
+    onOpen() {
+        this.modalEl.addClass('content-farm-usage-modal');
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Token Usage' });
+
+        const entries = this.store.list();
+        if (entries.length === 0) {
+            contentEl.createEl('p', { text: 'No requests have been sent yet.' });
+            return;
+        }
+
+        const totals = this.store.summarize('day').reduce((sum, day) => ({
+            requests: sum.requests + day.requests,
+            tokens: sum.tokens + day.promptTokens + day.completionTokens,
+            costUsd: sum.costUsd + day.costUsd
+        }), { requests: 0, tokens: 0, costUsd: 0 });
+        contentEl.createEl('p', {
+            text: `${totals.requests} requests · ${formatTokens(totals.tokens)} tokens · ${formatCost(totals.costUsd)}. ` +
+                'Counts marked ~ include local estimates where the provider reported none; cost needs endpoint prices.',
+            cls: 'setting-item-description'
+        });
+
+        const tabs = contentEl.createDiv('content-farm-batch-buttons');
+        (Object.keys(GROUPING_LABELS) as UsageGrouping[]).forEach(grouping => {
+            const tab = tabs.createEl('button', { text: GROUPING_LABELS[grouping] });
+            if (grouping === this.grouping) tab.addClass('mod-cta');
+            tab.onclick = () => {
+                this.grouping = grouping;
+                this.render();
+            };
+        });
+
+        const table = contentEl.createEl('table', { cls: 'content-farm-usage-table' });
+        const head = table.createEl('thead').createEl('tr');
+        [GROUPING_LABELS[this.grouping].replace('By ', ''), 'Requests', 'Prompt', 'Completion', 'Cost']
+            .forEach(title => head.createEl('th', { text: title }));
+
+        const body = table.createEl('tbody');
+        this.store.summarize(this.grouping).forEach(summary => this.renderRow(body, summary));
+
+        const buttons = contentEl.createDiv('content-farm-batch-buttons');
+        buttons.createEl('button', { text: 'Clear usage' }).onclick = async () => {
+            await this.store.clear();
+            this.render();
+        };
+    }
+
+    private renderRow(body: HTMLElement, summary: UsageSummary) {
+        const row = body.createEl('tr');
+        const mark = summary.estimated > 0 ? '~' : '';
+        row.createEl('td', { text: summary.key });
+        row.createEl('td', { text: String(summary.requests) });
+        row.createEl('td', { text: mark + formatTokens(summary.promptTokens) });
+        row.createEl('td', { text: mark + formatTokens(summary.completionTokens) });
+        row.createEl('td', { text: formatCost(summary.costUsd) });
+    }
+}
@@ -0,0 +1,81 @@
+import type { LLMEndpoint, LLMHttpRequest, LLMProvider, LLMRequestBody, LLMResult, LLMStreamEvent, LLMUsage } from './types';
+import { isRecord, isStreaming, parseJson, readNumber, readString, resolveModel, toChatMessages } from './requestBody';
+
+/**
+ * Ollama's native `/api/chat` endpoint.
+ * Streams NDJSON lines of `{ message: { content }, done }`.
+ */
+export class OllamaProvider implements LLMProvider {
+    readonly id = 'ollama' as const;
+    readonly label = 'Ollama';
+    readonly defaultUrl = 'http://localhost:11434/api/chat';
+
+    buildRequest(body: LLMRequestBody, endpoint: LLMEndpoint): LLMHttpRequest {
+        const options: Record<string, number> = {};
+        const temperature = readNumber(body.temperature);
+        const maxTokens = readNumber(body.maxTokens) ?? readNumber(body.max_tokens);
+        if (temperature !== undefined) options.temperature = temperature;
+        if (maxTokens !== undefined) options.num_predict = maxTokens;
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (endpoint.apiKey) {
+            headers.Authorization = `Bearer ${endpoint.apiKey}`;
+        }
+
+        return {
+            url: endpoint.url || this.defaultUrl,
+            headers,
+            body: JSON.stringify({
+                model: resolveModel(body, endpoint.model),
+                messages: toChatMessages(body),
+                stream: isStreaming(body),
+                ...(isRecord(body.options) ? { options: { ...options, ...body.options } } : { options })
+            })
+        };
+    }
+
+    parseResponse(raw: string): LLMResult {
+        const data = parseJson(raw);
+        if (!isRecord(data)) {
+            return { text: raw, sources: [] };
+        }
+        const usage = OllamaProvider.parseUsage(data);
+        return { text: OllamaProvider.readContent(data), sources: [], ...(usage ? { usage } : {}) };
+    }
+
+    parseStreamLine(line: string): LLMStreamEvent | null {
+        const data = parseJson(line);
+        if (!isRecord(data)) return null;
+
+        const error = readString(data.error);
+        if (error) return { type: 'error', message: error };
+
+        const text = OllamaProvider.readContent(data);
+        if (text) return { type: 'text', text };
+        if (data.done !== true) return null;
+
+        // The final line carries the counts; the stream closes right after it
+        const usage = OllamaProvider.parseUsage(data);
+        return usage ? { type: 'usage', usage } : { type: 'done' };
+    }
+
+    /**
+     * Counts from a finished response: `prompt_eval_count` and `eval_count`
+     */
+    private static parseUsage(data: Record<string, unknown>): LLMUsage | null {
+        const promptTokens = readNumber(data.prompt_eval_count);
+        const completionTokens = readNumber(data.eval_count);
+        if (promptTokens === undefined && completionTokens === undefined) return null;
+
+        const model = readString(data.model);
+        return { promptTokens: promptTokens ?? 0, completionTokens: completionTokens ?? 0, ...(model ? { model } : {}) };
+    }
+
+    private static readContent(data: Record<string, unknown>): string {
+        if (isRecord(data.message)) {
+            return readString(data.message.content) ?? '';
+        }
+        // `/api/generate` responses carry the text in `response`
+        return readString(data.response) ?? '';
+    }
+}
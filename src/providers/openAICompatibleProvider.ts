@@ -0,0 +1,92 @@
+import type { LLMEndpoint, LLMHttpRequest, LLMProvider, LLMRequestBody, LLMResult, LLMStreamEvent, LLMUsage, ProviderId } from './types';
+import { isRecord, isStreaming, parseJson, readNumber, readString, resolveModel, toChatMessages } from './requestBody';
+
+/**
+ * Any server exposing OpenAI's `/v1/chat/completions`.
+ * LM Studio is registered as an instance of this provider with its own default URL.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    constructor(
+        readonly id: ProviderId,
+        readonly label: string,
+        readonly defaultUrl: string
+    ) {}
+
+    buildRequest(body: LLMRequestBody, endpoint: LLMEndpoint): LLMHttpRequest {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (endpoint.apiKey) {
+            headers.Authorization = `Bearer ${endpoint.apiKey}`;
+        }
+
+        const request: Record<string, unknown> = {
+            model: resolveModel(body, endpoint.model),
+            messages: toChatMessages(body),
+            stream: isStreaming(body)
+        };
+        // Without this, streamed answers carry no token counts and usage is estimated
+        if (request.stream && endpoint.streamUsage) request.stream_options = { include_usage: true };
+        const temperature = readNumber(body.temperature);
+        const maxTokens = readNumber(body.max_tokens) ?? readNumber(body.maxTokens);
+        if (temperature !== undefined) request.temperature = temperature;
+        if (maxTokens !== undefined) request.max_tokens = maxTokens;
+
+        return {
+            url: endpoint.url || this.defaultUrl,
+            headers,
+            body: JSON.stringify(request)
+        };
+    }
+
+    parseResponse(raw: string): LLMResult {
+        const data = parseJson(raw);
+        if (!isRecord(data)) {
+            return { text: raw, sources: [] };
+        }
+
+        const choice = Array.isArray(data.choices) ? data.choices[0] : undefined;
+        const message = isRecord(choice) && isRecord(choice.message) ? choice.message : null;
+        const usage = OpenAICompatibleProvider.parseUsage(data);
+        return {
+            text: message ? readString(message.content) ?? '' : '',
+            sources: [],
+            ...(usage ? { usage } : {})
+        };
+    }
+
+    /**
+     * Streamed responses are server-sent events: `data: {...}` lines ending with `data: [DONE]`
+     */
+    parseStreamLine(line: string): LLMStreamEvent | null {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return null;
+
+        const payload = trimmed.slice('data:'.length).trim();
+        if (payload === '[DONE]') return { type: 'done' };
+
+        const data = parseJson(payload);
+        if (!isRecord(data)) return null;
+
+        if (isRecord(data.error)) {
+            return { type: 'error', message: readString(data.error.message) ?? 'Request failed' };
+        }
+
+        const choice = Array.isArray(data.choices) ? data.choices[0] : undefined;
+        const delta = isRecord(choice) && isRecord(choice.delta) ? choice.delta : null;
+        const text = delta ? readString(delta.content) : undefined;
+        if (text) return { type: 'text', text };
+
+        // The usage chunk comes last, with no choices
+        const usage = OpenAICompatibleProvider.parseUsage(data);
+        return usage ? { type: 'usage', usage } : null;
+    }
+
+    private static parseUsage(data: Record<string, unknown>): LLMUsage | null {
+        if (!isRecord(data.usage)) return null;
+        const promptTokens = readNumber(data.usage.prompt_tokens);
+        const completionTokens = readNumber(data.usage.completion_tokens);
+        if (promptTokens === undefined || completionTokens === undefined) return null;
+
+        const model = readString(data.model);
+        return { promptTokens, completionTokens, ...(model ? { model } : {}) };
+    }
+}
@@ -0,0 +1,95 @@
+import type { LLMEndpoint, LLMHttpRequest, LLMProvider, LLMRequestBody, LLMResult, LLMSource, LLMStreamEvent } from './types';
+import { isRecord, parseJson, readString, toChatMessages } from './requestBody';
+
+/**
+ * Perplexica's `/api/search` endpoint.
+ * Non-streamed responses are `{ message, sources }`; streamed responses are
+ * NDJSON lines tagged with a `type` field.
+ */
+export class PerplexicaProvider implements LLMProvider {
+    readonly id = 'perplexica' as const;
+    readonly label = 'Perplexica';
+    readonly defaultUrl = 'http://localhost:3030/api/search';
+
+    buildRequest(body: LLMRequestBody, endpoint: LLMEndpoint): LLMHttpRequest {
+        return {
+            url: endpoint.url || this.defaultUrl,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(this.toPerplexicaBody(body))
+        };
+    }
+
+    parseResponse(raw: string): LLMResult {
+        const data = parseJson(raw);
+        if (!isRecord(data)) {
+            return { text: raw, sources: [] };
+        }
+        return {
+            text: readString(data.message) ?? '',
+            sources: PerplexicaProvider.parseSources(data.sources)
+        };
+    }
+
+    parseStreamLine(line: string): LLMStreamEvent | null {
+        const message = parseJson(line);
+        if (!isRecord(message)) return null;
+
+        switch (message.type) {
+            case 'response': {
+                const text = readString(message.data);
+                return text ? { type: 'text', text } : null;
+            }
+            case 'sources':
+                return { type: 'sources', sources: PerplexicaProvider.parseSources(message.data) };
+            case 'end':
+            case 'done':
+                return { type: 'done' };
+            case 'error':
+                return { type: 'error', message: readString(message.data) ?? 'Perplexica reported an error' };
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Perplexica sources are `{ pageContent, metadata: { title, url } }`
+     */
+    static parseSources(value: unknown): LLMSource[] {
+        if (!Array.isArray(value)) return [];
+
+        const sources: LLMSource[] = [];
+        for (const entry of value) {
+            const metadata = isRecord(entry) && isRecord(entry.metadata) ? entry.metadata : null;
+            const url = metadata ? readString(metadata.url) : undefined;
+            if (metadata && url) {
+                sources.push({ title: readString(metadata.title) ?? url, url });
+            }
+        }
+        return sources;
+    }
+
+    /**
+     * Bodies written for chat-style providers carry `messages`; translate them
+     * into Perplexica's `query` / `history` / `systemInstructions` fields.
+     */
+    private toPerplexicaBody(body: LLMRequestBody): LLMRequestBody {
+        if (readString(body.query) !== undefined || !Array.isArray(body.messages)) {
+            return body;
+        }
+
+        const messages = toChatMessages(body);
+        const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+        const conversation = messages.filter(m => m.role !== 'system');
+        const last = conversation[conversation.length - 1];
+        const query = last && last.role === 'user' ? last.content : '';
+        const history = query ? conversation.slice(0, -1) : conversation;
+
+        const { messages: _messages, model: _model, ...rest } = body;
+        return {
+            ...rest,
+            query,
+            history: history.map(m => ({ role: m.role, content: m.content })),
+            ...(system ? { systemInstructions: system } : {})
+        };
+    }
+}
@@ -0,0 +1,35 @@
+import type { LLMProvider, ProviderId } from './types';
+import { PerplexicaProvider } from './perplexicaProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+
+export class ProviderRegistry {
+    private providers = new Map<ProviderId, LLMProvider>();
+
+    register(provider: LLMProvider): void {
+        this.providers.set(provider.id, provider);
+    }
+
+    /**
+     * Look up a provider by ID
+     * @throws Error if no provider is registered under that ID
+     */
+    get(id: ProviderId): LLMProvider {
+        const provider = this.providers.get(id);
+        if (!provider) {
+            throw new Error(`Unknown LLM provider: ${id}`);
+        }
+        return provider;
+    }
+
+    list(): LLMProvider[] {
+        return [...this.providers.values()];
+    }
+}
+
+// Export a singleton instance with the built-in providers
+export const providerRegistry = new ProviderRegistry();
+providerRegistry.register(new PerplexicaProvider());
+providerRegistry.register(new OllamaProvider());
+providerRegistry.register(new OpenAICompatibleProvider('lmstudio', 'LM Studio', 'http://localhost:1234/v1/chat/completions'));
+providerRegistry.register(new OpenAICompatibleProvider('openai-compatible', 'OpenAI-compatible', 'http://localhost:8080/v1/chat/completions'));
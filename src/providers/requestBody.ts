@@ -0,0 +1,110 @@
+import type { LLMMessage, LLMRequestBody } from './types';
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function readString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+export function readNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Safely parse a JSON line, returning null instead of throwing
+ */
+export function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return null;
+    }
+}
+
+export function isStreaming(body: LLMRequestBody): boolean {
+    return body.stream === true;
+}
+
+function toRole(value: unknown): LLMMessage['role'] | null {
+    switch (value) {
+        case 'system':
+            return 'system';
+        case 'user':
+        case 'human':
+            return 'user';
+        case 'assistant':
+        case 'ai':
+            return 'assistant';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Normalise a single history entry. Perplexica accepts both `{ role, content }`
+ * objects and `["human", "text"]` tuples.
+ */
+function toMessage(entry: unknown): LLMMessage | null {
+    if (Array.isArray(entry)) {
+        const role = toRole(entry[0]);
+        const content = readString(entry[1]);
+        return role && content !== undefined ? { role, content } : null;
+    }
+    if (isRecord(entry)) {
+        const role = toRole(entry.role);
+        const content = readString(entry.content);
+        return role && content !== undefined ? { role, content } : null;
+    }
+    return null;
+}
+
+/**
+ * Convert a request body into chat messages.
+ * Uses `messages` when present, otherwise translates a Perplexica-shaped body
+ * (`systemInstructions`, `history`, `query`).
+ */
+export function toChatMessages(body: LLMRequestBody): LLMMessage[] {
+    if (Array.isArray(body.messages)) {
+        return body.messages
+            .map(toMessage)
+            .filter((message): message is LLMMessage => message !== null);
+    }
+
+    const messages: LLMMessage[] = [];
+    const system = readString(body.systemInstructions);
+    if (system) {
+        messages.push({ role: 'system', content: system });
+    }
+
+    if (Array.isArray(body.history)) {
+        for (const entry of body.history) {
+            const message = toMessage(entry);
+            if (message) messages.push(message);
+        }
+    }
+
+    const query = readString(body.query);
+    const last = messages[messages.length - 1];
+    // The settings template repeats the query as the last history entry
+    if (query && !(last && last.role === 'user' && last.content === query)) {
+        messages.push({ role: 'user', content: query });
+    }
+
+    return messages;
+}
+
+/**
+ * Pick the model for chat-style providers: the body wins, then the endpoint,
+ * then the Perplexica `chatModel.name` field.
+ */
+export function resolveModel(body: LLMRequestBody, endpointModel: string): string {
+    const fromBody = readString(body.model);
+    if (fromBody) return fromBody;
+    if (endpointModel) return endpointModel;
+    if (isRecord(body.chatModel)) {
+        return readString(body.chatModel.name) ?? '';
+    }
+    return '';
+}
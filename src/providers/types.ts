@@ -0,0 +1,82 @@
+export type ProviderId = 'perplexica' | 'ollama' | 'lmstudio' | 'openai-compatible';
+
+/**
+ * A configured LLM endpoint as stored in settings.
+ * Several endpoints can be configured; one of them is active at a time.
+ */
+export interface LLMEndpoint {
+    id: string;
+    name: string;
+    provider: ProviderId;
+    url: string;
+    model: string;
+    apiKey: string;
+    /** Price in USD per million prompt tokens, for cost accounting */
+    inputCostPerMillion?: number;
+    /** Price in USD per million completion tokens */
+    outputCostPerMillion?: number;
+    /**
+     * Ask OpenAI-compatible servers for token counts in streamed answers.
+     * Off by default: some servers reject the extra `stream_options` field.
+     */
+    streamUsage?: boolean;
+}
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+/** A parsed request body as written in a `requestjson--*` codefence or the settings template */
+export type LLMRequestBody = Record<string, unknown>;
+
+export interface LLMHttpRequest {
+    url: string;
+    headers: Record<string, string>;
+    body: string;
+}
+
+export interface LLMSource {
+    title: string;
+    url: string;
+}
+
+/** Token counts as reported by the provider */
+export interface LLMUsage {
+    promptTokens: number;
+    completionTokens: number;
+    /** The model that actually answered, when the response says */
+    model?: string;
+}
+
+export interface LLMResult {
+    text: string;
+    sources: LLMSource[];
+    /** Only present when the provider reports it */
+    usage?: LLMUsage;
+}
+
+export type LLMStreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'sources'; sources: LLMSource[] }
+    | { type: 'usage'; usage: LLMUsage }
+    | { type: 'done' }
+    | { type: 'error'; message: string };
+
+export interface LLMProvider {
+    readonly id: ProviderId;
+    readonly label: string;
+    readonly defaultUrl: string;
+
+    /**
+     * Build the HTTP request for a request body.
+     * Bodies written for another provider are translated, so one template works everywhere.
+     */
+    buildRequest(body: LLMRequestBody, endpoint: LLMEndpoint): LLMHttpRequest;
+
+    /** Extract the answer from a complete (non-streamed) response body */
+    parseResponse(raw: string): LLMResult;
+
+    /** Parse a single line of a streamed response; returns null for lines that carry nothing */
+    parseStreamLine(line: string): LLMStreamEvent | null;
+}
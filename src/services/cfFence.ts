@@ -0,0 +1,119 @@
+/**
+ * `cf` codefences (D1 grammar): the opening line names a verb, optional
+ * modifiers and an optional args block; the body is the verb's input.
+ *
+ *     ```cf improve-selection preserve-citations `{wordCount="200"}`
+ *     ```cf-improve-selection-strict
+ */
+
+export type CfArgs = Record<string, string | boolean>;
+
+export interface CfHeader {
+    /**
+     * Command tokens as written. `cf improve-selection strict` gives
+     * `['improve-selection', 'strict']`; `cf-improve-selection-strict` gives
+     * `['improve-selection-strict']`. Verb resolution splits them further.
+     */
+    tokens: string[];
+    args: CfArgs;
+}
+
+export interface CfFence {
+    header: CfHeader;
+    /** The opening line as written */
+    headerLine: string;
+    body: string;
+    /** Line of the opening fence */
+    lineStart: number;
+    /** Line of the closing fence */
+    lineEnd: number;
+}
+
+const CF_OPENING = /^\s*`{3,}\s*cf(?:-(\S+))?(?:\s+(.*))?$/;
+const FENCE_LINE = /^\s*(`{3,}|~{3,})/;
+const ARGS_BLOCK = /`?(\{.*\})`?\s*$/;
+const ARG = /([A-Za-z_][\w-]*)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s,}]+)))?/g;
+
+/**
+ * Parse an args block: `{key="value", flag, count=3}`. Quoted values are
+ * strings, bare `true`/`false` are booleans, and a key without a value is `true`.
+ */
+export function parseCfArgs(block: string): CfArgs {
+    const args: CfArgs = {};
+    const inner = block.trim().replace(/^`|`$/g, '').replace(/^\{|\}$/g, '');
+    for (const match of inner.matchAll(ARG)) {
+        const [, key, doubleQuoted, singleQuoted, bare] = match;
+        if (!key) continue;
+        if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+            args[key] = doubleQuoted ?? singleQuoted ?? '';
+        } else if (bare === undefined || bare === 'true') {
+            args[key] = true;
+        } else if (bare === 'false') {
+            args[key] = false;
+        } else {
+            args[key] = bare;
+        }
+    }
+    return args;
+}
+
+/**
+ * Parse the opening line of a `cf` fence
+ * @returns null if the line doesn't open a `cf` fence
+ */
+export function parseCfHeader(line: string): CfHeader | null {
+    const match = line.match(CF_OPENING);
+    if (!match) return null;
+
+    let rest = match[2] ?? '';
+    let args: CfArgs = {};
+    const argsMatch = rest.match(ARGS_BLOCK);
+    if (argsMatch) {
+        args = parseCfArgs(argsMatch[1] ?? '');
+        rest = rest.slice(0, argsMatch.index);
+    }
+
+    const tokens = rest.split(/\s+/).filter(Boolean);
+    if (match[1]) tokens.unshift(match[1]);
+    return { tokens, args };
+}
+
+/**
+ * Find the `cf` fence containing a line
+ * @param lines - The note's lines
+ * @param line - Any line of the fence, including its opening or closing line
+ */
+export function findCfFence(lines: string[], line: number): CfFence | null {
+    let open: { line: number; marker: string } | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const text = lines[i]!;
+        const fence = text.match(FENCE_LINE);
+        if (!open) {
+            if (fence) open = { line: i, marker: fence[1]! };
+            continue;
+        }
+
+        // A closing fence is the same character, at least as long, with nothing after it
+        const marker = open.marker;
+        const closes = fence && fence[1]![0] === marker[0] && fence[1]!.length >= marker.length &&
+            text.trim() === fence[1];
+        if (!closes) continue;
+
+        if (open.line <= line && line <= i) {
+            const headerLine = lines[open.line]!;
+            const header = parseCfHeader(headerLine);
+            if (!header) return null;
+            return {
+                header,
+                headerLine,
+                body: lines.slice(open.line + 1, i).join('\n'),
+                lineStart: open.line,
+                lineEnd: i
+            };
+        }
+        if (open.line > line) return null;
+        open = null;
+    }
+    return null;
+}
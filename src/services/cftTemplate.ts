@@ -0,0 +1,168 @@
+import { getFrontMatterInfo, parseYaml } from 'obsidian';
+import type { TFile } from 'obsidian';
+import type { LLMRequestBody } from '../providers/types';
+import { isRecord, readNumber, readString } from '../providers/requestBody';
+import { interpolate } from '../utils/interpolate';
+import type { VariableResolver } from '../utils/interpolate';
+import { matchesGlob } from '../utils/glob';
+
+/**
+ * A per-directory profile template. The file has four zones: frontmatter,
+ * explainer prose (ignored), one `cft` YAML block, and the heading skeleton
+ * that becomes the user prompt. A `***` line ends the skeleton; anything
+ * below it is authoring scratch and never sent.
+ *
+ * Verb files use the same shape, but may instead put the prompt inside the
+ * `cft` block after a `---` line, leaving everything outside it as prose.
+ */
+export interface CftTemplate {
+    path: string;
+    title: string;
+    description: string;
+    /** Globs from `applies-to-paths` and `glob` */
+    appliesToPaths: string[];
+    /** The `cft` block without `system` */
+    config: Record<string, unknown>;
+    system: string;
+    skeleton: string;
+}
+
+export class CftTemplateError extends Error {
+    constructor(public readonly path: string, message: string) {
+        super(`${path}: ${message}`);
+        this.name = 'CftTemplateError';
+    }
+}
+
+export const DEFAULT_TEMPLATES_ROOT = 'zz-cf-lib/templates';
+
+const CFT_FENCE = /^```cft[ \t]*\n([\s\S]*?)^```[ \t]*$/m;
+const SCRATCH_MARKER = /^\*\*\*[ \t]*$/m;
+const PROMPT_SEPARATOR = /^---[ \t]*$/m;
+
+function readStringList(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    if (!Array.isArray(value)) return [];
+    return value.filter((entry): entry is string => typeof entry === 'string');
+}
+
+/**
+ * Split a template file into its zones
+ * @throws CftTemplateError when the `cft` block or skeleton is missing or malformed
+ */
+export function parseCftTemplate(path: string, content: string): CftTemplate {
+    const info = getFrontMatterInfo(content);
+    const frontmatter: unknown = info.exists ? parseYaml(info.frontmatter) : {};
+    const meta = isRecord(frontmatter) ? frontmatter : {};
+    const body = content.slice(info.contentStart);
+
+    const fences = body.match(new RegExp(CFT_FENCE.source, 'gm')) ?? [];
+    if (fences.length === 0) throw new CftTemplateError(path, 'Template has no cft block');
+    if (fences.length > 1) throw new CftTemplateError(path, 'Template has more than one cft block');
+
+    const fence = CFT_FENCE.exec(body)!;
+    // Verb files may keep the prompt inside the block, after a `---` line
+    const block = fence[1] ?? '';
+    const separator = PROMPT_SEPARATOR.exec(block);
+    const yaml = separator ? block.slice(0, separator.index) : block;
+    const inlinePrompt = separator ? block.slice(separator.index + separator[0].length) : '';
+    let parsed: unknown;
+    try {
+        parsed = parseYaml(yaml);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new CftTemplateError(path, `cft block is not valid YAML: ${message}`);
+    }
+    const { system, ...config } = isRecord(parsed) ? parsed : {};
+
+    const afterFence = body.slice(fence.index + fence[0].length);
+    const scratch = SCRATCH_MARKER.exec(afterFence);
+    const skeleton = inlinePrompt.trim() || (scratch ? afterFence.slice(0, scratch.index) : afterFence).trim();
+    if (!skeleton) throw new CftTemplateError(path, 'Template has no skeleton');
+
+    const basename = path.split('/').pop()?.replace(/\.md$/, '') ?? path;
+    return {
+        path,
+        title: readString(meta.title) ?? basename,
+        description: readString(meta.description) ?? '',
+        appliesToPaths: [...readStringList(meta['applies-to-paths']), ...readStringList(meta.glob)],
+        config,
+        system: readString(system) ?? '',
+        skeleton
+    };
+}
+
+export class CftTemplateService {
+    public matches(template: CftTemplate, path: string): boolean {
+        return template.appliesToPaths.some(glob => matchesGlob(path, glob));
+    }
+
+    /**
+     * Resolver for the two template variables: `{{title}}` (frontmatter title,
+     * else the basename) and `{{frontmatter}}` (the frontmatter YAML as written)
+     * @param file - The target note
+     * @param content - The note's current text, which may be ahead of the saved file
+     */
+    public resolver(file: TFile, content: string): VariableResolver {
+        const info = getFrontMatterInfo(content);
+        let frontmatter: unknown = {};
+        try {
+            frontmatter = info.exists ? parseYaml(info.frontmatter) : {};
+        } catch {
+            // Unparseable frontmatter still goes to the model as written
+        }
+        const title = (isRecord(frontmatter) ? readString(frontmatter.title)?.trim() : undefined) || file.basename;
+        const yaml = info.exists ? info.frontmatter.trimEnd() : '';
+
+        return (name: string) => {
+            if (name === 'title') return title;
+            if (name === 'frontmatter') return yaml;
+            return undefined;
+        };
+    }
+
+    /**
+     * Build a chat request from the template: `system` and the skeleton
+     * become the two messages, and known `cft` keys map onto request fields
+     * @param input - Appended to the user prompt as-is, never interpolated
+     * @returns The body plus any placeholders the template used but v0.1 doesn't define
+     */
+    public buildRequest(template: CftTemplate, resolve: VariableResolver, input: string = ''): { body: LLMRequestBody; unresolved: string[] } {
+        const system = interpolate(template.system, resolve);
+        const user = interpolate(template.skeleton, resolve);
+        if (input.trim()) user.text += `\n\n${input}`;
+        const { config } = template;
+
+        const body: LLMRequestBody = {
+            messages: [
+                ...(system.text.trim() ? [{ role: 'system', content: system.text }] : []),
+                { role: 'user', content: user.text }
+            ],
+            stream: true,
+            // Perplexica needs a focus mode; other providers ignore it
+            focusMode: readString(config['focus-mode']) ?? 'webSearch'
+        };
+
+        const model = readString(config.model);
+        const maxTokens = readNumber(config['max-tokens']);
+        const temperature = readNumber(config.temperature);
+        const optimizationMode = readString(config['optimization-mode']);
+        if (model) body.model = model;
+        if (maxTokens !== undefined) body.max_tokens = maxTokens;
+        if (temperature !== undefined) body.temperature = temperature;
+        if (optimizationMode) body.optimizationMode = optimizationMode;
+
+        return { body, unresolved: [...system.unresolved, ...user.unresolved] };
+    }
+}
+
+/**
+ * Format a run failure as the `cf-error` callout appended below the body
+ */
+export function errorCallout(message: string, title: string = 'Template run failed'): string {
+    const quoted = message.split('\n').map(line => `> ${line}`).join('\n');
+    return `\n\n> [!cf-error] ${title}\n${quoted}\n`;
+}
+
+// Export a singleton instance
+export const cftTemplateService = new CftTemplateService();
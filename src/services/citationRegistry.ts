@@ -0,0 +1,288 @@
+import { createHash, randomBytes } from 'crypto';
+import { TFile } from 'obsidian';
+import type { App, Component, TAbstractFile } from 'obsidian';
+
+/** A `[^hexid]: ...` footnote definition somewhere in the vault */
+export interface CitationDefinition {
+    id: string;
+    path: string;
+    /** Line of the definition */
+    line: number;
+    /** Everything after `[^id]:` */
+    text: string;
+    /** First link target or bare URL in the definition */
+    url?: string;
+}
+
+/**
+ * The identity of a cited source: its DOI when it has one, otherwise its
+ * normalised URL
+ * @param text - A URL, DOI or footnote definition text
+ * @returns The key, or undefined if the text names no source
+ */
+export function sourceKey(text: string): string | undefined {
+    const doi = text.match(DOI)?.[1];
+    if (doi) return `doi:${doi.replace(/[.,;:]+$/, '').toLowerCase()}`;
+    const url = definitionUrl(text);
+    return url ? normalizeUrl(url) : undefined;
+}
+
+/**
+ * Hex digest a source's IDs are cut from
+ */
+export function sourceHash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+interface FileCitations {
+    definitions: CitationDefinition[];
+    /** IDs referenced in the file, defined there or not */
+    references: Set<string>;
+}
+
+/**
+ * Shorter IDs, and IDs without a letter like `[^2024]`, are taken to be
+ * ordinary numbered footnotes, not hex citations
+ */
+const HEX_ID = '(?=[0-9]*[a-f])[0-9a-f]{4,}';
+const HEX_ID_PATTERN = new RegExp(`^${HEX_ID}$`, 'i');
+const DEFINITION = new RegExp(`^\\[\\^(${HEX_ID})\\]:[ \\t]*(.*)$`, 'gim');
+const REFERENCE = new RegExp(`\\[\\^(${HEX_ID})\\]`, 'gi');
+const URL_IN_TEXT = /\]\((https?:\/\/[^)\s]+)\)|(https?:\/\/[^\s)>\]]+)/;
+/** A DOI, bare or inside a doi.org URL */
+const DOI = /\b(10\.\d{4,9}\/[^\s"'<>()[\]]+)/;
+/** Query parameters that only track where a click came from */
+const TRACKING_PARAM = /^(?:utm_\w+|fbclid|gclid|msclkid|mc_cid|mc_eid|ref|ref_src|source)$/i;
+
+/**
+ * First link target or bare URL in a footnote definition's text
+ */
+export function definitionUrl(text: string): string | undefined {
+    const url = text.match(URL_IN_TEXT);
+    return url ? url[1] ?? url[2]! : undefined;
+}
+
+/**
+ * Key under which two URLs count as the same source: scheme, `www.`,
+ * fragment, trailing slash and tracking parameters are ignored, and the
+ * remaining query parameters are sorted
+ */
+export function normalizeUrl(url: string): string {
+    const trimmed = url.trim().replace(/[.,;:!?]+$/, '');
+    let parsed: URL;
+    try {
+        parsed = new URL(trimmed);
+    } catch {
+        return trimmed.toLowerCase();
+    }
+
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '') + (parsed.port ? `:${parsed.port}` : '');
+    const params = [...parsed.searchParams]
+        .filter(([key]) => !TRACKING_PARAM.test(key))
+        .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+    return host + parsed.pathname.replace(/\/+$/, '') + query;
+}
+
+/**
+ * Parse the hex citations in one note
+ */
+export function parseCitations(path: string, content: string): FileCitations {
+    const lineStarts = [0];
+    for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) lineStarts.push(i + 1);
+    const lineAt = (offset: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (lineStarts[mid]! <= offset) low = mid;
+            else high = mid - 1;
+        }
+        return low;
+    };
+
+    const definitions = [...content.matchAll(DEFINITION)].map((match): CitationDefinition => {
+        const text = match[2]!.trim();
+        const url = definitionUrl(text);
+        const definition: CitationDefinition = { id: match[1]!.toLowerCase(), path, line: lineAt(match.index!), text };
+        if (url) definition.url = url;
+        return definition;
+    });
+    const references = new Set([...content.matchAll(REFERENCE)].map(match => match[1]!.toLowerCase()));
+    return { definitions, references };
+}
+
+/**
+ * Index of every hex citation in the vault, kept current as notes change,
+ * so new IDs never reuse one that is already taken anywhere
+ */
+export class CitationRegistry {
+    private files = new Map<string, FileCitations>();
+    /** Notes using each ID */
+    private usage = new Map<string, Set<string>>();
+    /** IDs handed out but not yet seen in a saved note, with the source each was derived from */
+    private reserved = new Map<string, string | undefined>();
+
+    /** Settles once `load` has indexed the vault; IDs handed out before then may be in use */
+    readonly loaded: Promise<void>;
+    private markLoaded: () => void = () => {};
+
+    constructor(private app: App) {
+        this.loaded = new Promise(resolve => {
+            this.markLoaded = resolve;
+        });
+    }
+
+    async load(): Promise<void> {
+        this.files.clear();
+        this.usage.clear();
+        try {
+            for (const file of this.app.vault.getMarkdownFiles()) {
+                await this.index(file);
+            }
+        } finally {
+            this.markLoaded();
+        }
+    }
+
+    /**
+     * Keep the index current; the events are released with `component`
+     */
+    watch(component: Component): void {
+        const { vault } = this.app;
+        component.registerEvent(vault.on('create', file => void this.update(file)));
+        component.registerEvent(vault.on('modify', file => void this.update(file)));
+        component.registerEvent(vault.on('delete', file => this.forget(file.path)));
+        component.registerEvent(vault.on('rename', (file, oldPath) => {
+            this.forget(oldPath);
+            void this.update(file);
+        }));
+    }
+
+    /** Whether an ID is used in any note or already handed out */
+    has(id: string): boolean {
+        const key = id.toLowerCase();
+        return this.usage.has(key) || this.reserved.has(key);
+    }
+
+    /** Definitions of an ID across the vault; more than one is a collision */
+    definitions(id: string): CitationDefinition[] {
+        const key = id.toLowerCase();
+        return [...this.usage.get(key) ?? []]
+            .flatMap(path => this.files.get(path)?.definitions.filter(d => d.id === key) ?? []);
+    }
+
+    /**
+     * The ID another note already gives a source, matched by normalised URL
+     * @param url - The source's URL
+     * @param exceptPath - Note to leave out, usually the one being edited
+     */
+    idForUrl(url: string, exceptPath: string = ''): string | undefined {
+        const key = normalizeUrl(url);
+        for (const [path, citations] of this.files) {
+            if (path === exceptPath) continue;
+            const definition = citations.definitions.find(d => d.url !== undefined && normalizeUrl(d.url) === key);
+            if (definition) return definition.id;
+        }
+        return undefined;
+    }
+
+    /** Number of distinct IDs in the vault */
+    get size(): number {
+        return this.usage.size;
+    }
+
+    /**
+     * A hex ID not used anywhere in the vault. It is reserved until a note
+     * containing it is indexed, so IDs generated in a row never repeat.
+     * @param length - Length of the ID
+     * @param source - A `sourceKey`; the ID is then cut from the source's hash
+     * instead of random, so the same source gets the same ID in every note
+     */
+    generateId(length: number = 6, source?: string): string {
+        if (source !== undefined) return this.sourceId(length, source);
+
+        for (let attempt = 0; attempt < 1000; attempt++) {
+            const id = randomBytes(Math.ceil(length / 2)).toString('hex').slice(0, length);
+            if (HEX_ID_PATTERN.test(id) && !this.has(id)) {
+                this.reserved.set(id, undefined);
+                return id;
+            }
+        }
+        throw new Error(`No unused ${length}-character citation ID found; use longer IDs`);
+    }
+
+    /**
+     * IDs defined more than once for different sources, in one note or across notes
+     */
+    collisions(): Array<{ id: string; definitions: CitationDefinition[] }> {
+        const collisions: Array<{ id: string; definitions: CitationDefinition[] }> = [];
+        this.usage.forEach((_paths, id) => {
+            const definitions = this.definitions(id);
+            // Definitions without a source can't be told apart, so each counts as its own
+            const sources = new Set(definitions.map(d => sourceKey(d.text) ?? `${d.path}:${d.line}`));
+            if (sources.size > 1) collisions.push({ id, definitions });
+        });
+        return collisions.sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    /**
+     * The shortest prefix of the source's hash, at least `length` long and
+     * with a letter in it, that no other source uses. A taken prefix grows by one character at a time,
+     * so a collision only lengthens the ID of the source that came second.
+     */
+    private sourceId(length: number, source: string): string {
+        const hash = sourceHash(source);
+        for (let end = length; end <= hash.length; end++) {
+            const id = hash.slice(0, end);
+            if (!HEX_ID_PATTERN.test(id)) continue;
+            if (this.reserved.has(id)) {
+                if (this.reserved.get(id) === source) return id;
+                continue;
+            }
+
+            const definitions = this.definitions(id);
+            const usedElsewhere = this.usage.has(id) &&
+                (definitions.length === 0 || definitions.some(d => sourceKey(d.text) !== source));
+            if (!usedElsewhere) {
+                if (!this.usage.has(id)) this.reserved.set(id, source);
+                return id;
+            }
+        }
+        throw new Error(`No unused citation ID found for ${source}`);
+    }
+
+    private async update(file: TAbstractFile): Promise<void> {
+        if (file instanceof TFile && file.extension === 'md') {
+            await this.index(file);
+        }
+    }
+
+    private async index(file: TFile): Promise<void> {
+        this.forget(file.path);
+        const citations = parseCitations(file.path, await this.app.vault.cachedRead(file));
+        const ids = new Set([...citations.references, ...citations.definitions.map(d => d.id)]);
+        if (ids.size === 0) return;
+
+        this.files.set(file.path, citations);
+        ids.forEach(id => {
+            this.reserved.delete(id);
+            const paths = this.usage.get(id) ?? new Set<string>();
+            paths.add(file.path);
+            this.usage.set(id, paths);
+        });
+    }
+
+    private forget(path: string): void {
+        const citations = this.files.get(path);
+        if (!citations) return;
+
+        this.files.delete(path);
+        const ids = new Set([...citations.references, ...citations.definitions.map(d => d.id)]);
+        ids.forEach(id => {
+            const paths = this.usage.get(id);
+            paths?.delete(path);
+            if (paths?.size === 0) this.usage.delete(id);
+        });
+    }
+}
@@ -1,4 +1,7 @@
 import * as crypto from 'crypto';
+import { definitionUrl, normalizeUrl, sourceHash, sourceKey } from './citationRegistry';
+import type { CitationRegistry } from './citationRegistry';
+import { mapProse, segmentMarkdown } from '../utils/markdownSegments';
 
 export interface CitationConversionResult {
     updatedContent: string;
@@ -8,68 +11,314 @@ export interface CitationConversionResult {
     };
 }
 
+export interface CitationSource {
+    title: string;
+    url: string;
+}
+
+/**
+ * How new citation IDs are made: at random, or from the source's DOI or URL
+ * so the same source carries the same ID in every note
+ */
+export type CitationIdStrategy = 'random' | 'source';
+
+export const CITATION_ID_STRATEGY_LABELS: Record<CitationIdStrategy, string> = {
+    random: 'Random',
+    source: 'Derived from source URL or DOI'
+};
+
+export interface CitationDedupeResult {
+    updatedContent: string;
+    changed: boolean;
+    stats: {
+        /** Definitions dropped because an earlier one cites the same source */
+        definitionsMerged: number;
+        /** Sources given the ID another note already uses for them */
+        idsReused: number;
+    };
+}
+
+export interface CitationDedupeOptions {
+    /** Path of the note, left out when looking up IDs in other notes */
+    path?: string;
+    /** Give a source the ID another note already uses for its URL */
+    reuseVaultIds?: boolean;
+}
+
+/** One citation number or range, e.g. `2` or `3-5` */
+const CITATION_ITEM = String.raw`\d+(?:\s*[-–]\s*\d+)?`;
+/** `[^1]` footnote labels, and `[1]`, `[1, 2]`, `[1-3]` references not followed by a link target */
+const CITATION_REFERENCE = new RegExp(String.raw`\[\^(\d+)\]|\[(${CITATION_ITEM}(?:\s*,\s*${CITATION_ITEM})*)\](?!\()`, 'g');
+/** An entry of a numbered source list: `1. https://...`, `2) Title - https://...` or `[3] https://...` */
+const SOURCE_LIST_ITEM = /^\s*(?:\[(\d+)\]|(\d+)[.)])\s+(.*https?:\/\/\S+.*)$/;
+const SOURCE_LIST_LABEL = /^\s*(?:#{1,6}\s*)?(?:\*\*|__)?(?:sources|references|citations)(?:\*\*|__)?:?(?:\*\*|__)?\s*$/i;
+/** `[^1]: ...` or `[1]: ...` at the start of a line */
+const NUMBERED_DEFINITION = /^\[\^?(\d+)\]:[ \t]*(.*)$/gm;
+const FOOTNOTE_DEFINITION = /^\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+const FOOTNOTE_REFERENCE = /\[\^([^\]\s]+)\]/g;
+const HEX_CITATION = /^(?=[0-9]*[a-f])[0-9a-f]{4,}$/i;
+/** Longer ranges are more likely a typo than a citation */
+const MAX_RANGE = 50;
+
+/**
+ * Expand a citation group into its numbers
+ * @param group - The text inside the brackets, e.g. `1, 3-5`
+ * @returns The numbers in order, or null if a range is reversed or too long
+ */
+function expandCitationGroup(group: string): string[] | null {
+    const numbers: string[] = [];
+    for (const item of group.split(',')) {
+        const [from, to] = item.split(/[-–]/).map(part => Number(part.trim()));
+        if (to === undefined) {
+            numbers.push(String(from));
+            continue;
+        }
+        if (to < from! || to - from! > MAX_RANGE) return null;
+        for (let n = from!; n <= to; n++) numbers.push(String(n));
+    }
+    return numbers;
+}
+
+/**
+ * Rewrite a numbered source list at the end of a note as `[^n]:` footnote
+ * definitions, dropping a "Sources" label line above it
+ */
+function sourceListToDefinitions(content: string): string {
+    const lines = content.split('\n');
+    let start = lines.length;
+    while (start > 0 && (lines[start - 1]!.trim() === '' || SOURCE_LIST_ITEM.test(lines[start - 1]!))) start--;
+    while (start < lines.length && lines[start]!.trim() === '') start++;
+    const listed = new Set(lines.slice(start).map(line => line.match(SOURCE_LIST_ITEM))
+        .flatMap(match => match ? [match[1] ?? match[2]!] : []));
+    // Only a list the text actually cites is a source list
+    const cited = [...lines.slice(0, start).join('\n').matchAll(CITATION_REFERENCE)]
+        .flatMap(match => match[1] !== undefined ? [match[1]] : expandCitationGroup(match[2]!) ?? []);
+    if (!cited.some(n => listed.has(n))) return content;
+
+    const definitions = lines.slice(start).map(line => {
+        const match = line.match(SOURCE_LIST_ITEM);
+        return match ? `[^${match[1] ?? match[2]}]: ${match[3]!.trim()}` : line;
+    });
+
+    let labelLine = start - 1;
+    while (labelLine >= 0 && lines[labelLine]!.trim() === '') labelLine--;
+    const before = labelLine >= 0 && SOURCE_LIST_LABEL.test(lines[labelLine]!)
+        ? lines.slice(0, labelLine)
+        : lines.slice(0, start);
+    return [...before, ...definitions].join('\n');
+}
+
 export class CitationService {
+    private registry: CitationRegistry | null = null;
+    private idStrategy: CitationIdStrategy = 'random';
+
     /**
-     * Generate a random hex ID of specified length
+     * Check new IDs against the vault's citations from now on
+     */
+    public setRegistry(registry: CitationRegistry): void {
+        this.registry = registry;
+    }
+
+    public setIdStrategy(strategy: CitationIdStrategy): void {
+        this.idStrategy = strategy;
+    }
+
+    /**
+     * Generate a hex ID of specified length, unused anywhere in the vault
+     * once a registry is set
      * @param length - Length of the hex ID to generate (default: 6)
-     * @returns Random hex string
+     * @param source - URL, DOI or definition text of the cited source. With
+     * the `source` strategy the ID is derived from it, lengthened if another
+     * source already has that ID; without one the ID is random.
+     * @returns Hex string
      */
-    private generateHexId(length: number = 6): string {
+    public generateHexId(length: number = 6, source?: string): string {
+        const key = this.idStrategy === 'source' && source !== undefined ? sourceKey(source) : undefined;
+        if (this.registry) return this.registry.generateId(length, key);
+        if (key) return sourceHash(key).slice(0, length);
         return crypto.randomBytes(Math.ceil(length / 2))
             .toString('hex')
             .slice(0, length);
     }
 
     /**
-     * Convert all citations to random hex format
+     * Convert all citations to hex format. Only prose is touched: code,
+     * frontmatter, link text and URLs keep their brackets as written.
      * @param content - The markdown content to process
      * @returns Object with updated content and statistics
      */
     public convertCitations(content: string): CitationConversionResult {
-        let updatedContent = content;
-        let citationsConverted = 0;
+        const listed = sourceListToDefinitions(content);
+
+        // Definition text per number, so IDs can be derived from their sources
+        // and groups are only expanded when they cite defined numbers
+        const sources = new Map<string, string>();
+        for (const match of listed.matchAll(NUMBERED_DEFINITION)) {
+            if (!sources.has(match[1]!)) sources.set(match[1]!, match[2]!);
+        }
+
         const citationMap = new Map<string, string>(); // Maps original ID to hex ID
-        
-        // First pass: collect all citations and generate hex IDs
-        const collectCitations = (match: string, _prefix: string, id: string) => {
-            if (!citationMap.has(id)) {
-                citationMap.set(id, this.generateHexId());
+        const hexFor = (id: string): string => {
+            let hexId = citationMap.get(id);
+            if (!hexId) {
+                hexId = this.generateHexId(6, sources.get(id));
+                citationMap.set(id, hexId);
             }
-            return match; // Don't modify yet
+            return hexId;
         };
-        
-        // Collect numeric citations [^123]
-        updatedContent = updatedContent.replace(/\[\^(\d+)\]/g, collectCitations);
-        
-        // Collect plain numeric citations [123] (only if not part of a link)
-        updatedContent = updatedContent.replace(/\[(\d+)\]/g, (match, id, offset) => {
-            // Only collect if it's not part of a link
-            if (!/\]\([^)]*$/.test(updatedContent.substring(0, offset))) {
-                return collectCitations(match, '', id);
+
+        // `[1]: url` defines the target of a `[text][1]` reference link, not a citation
+        const linkLabels = new Set(segmentMarkdown(listed)
+            .filter(segment => !segment.prose)
+            .flatMap(segment => [...segment.text.matchAll(/\]\[(\d+)\]$/g)].map(match => match[1]!)));
+
+        // [^1] footnote labels (definitions included) and [1], [1, 2], [1-3] references
+        const converted = mapProse(listed, text => text.replace(
+            CITATION_REFERENCE,
+            (match: string, footnote: string | undefined, group: string | undefined, offset: number) => {
+                if (footnote !== undefined) return `[^${hexFor(footnote)}]`;
+
+                const definesLink = linkLabels.has(group!) &&
+                    (offset === 0 || text[offset - 1] === '\n') && text[offset + match.length] === ':';
+                const numbers = definesLink ? null : expandCitationGroup(group!);
+                // A group or range is only a citation when each number has a source: `[0, 1]`
+                // may be an interval and `[2010-2015]` a span of years
+                const cites = numbers !== null &&
+                    (/^\d+$/.test(group!) || numbers.every(n => sources.has(n)));
+                return cites ? numbers.map(n => `[^${hexFor(n)}]`).join('') : match;
+            }
+        ));
+
+        // One definition per source: a `[^1]:` line and a `1. https://` entry for the same source collapse
+        const convertedIds = new Set(citationMap.values());
+        const defined = new Set<string>();
+        const updatedContent = converted.split('\n').filter(line => {
+            const id = line.match(/^\[\^([0-9a-f]+)\]:/)?.[1];
+            if (!id || !convertedIds.has(id)) return true;
+            if (defined.has(id)) return false;
+            defined.add(id);
+            return true;
+        }).join('\n');
+
+        return {
+            updatedContent,
+            changed: updatedContent !== content,
+            stats: {
+                citationsConverted: citationMap.size
             }
-            return match;
+        };
+    }
+
+    /**
+     * Merge footnotes that cite the same source, by normalised URL, into one
+     * hex ID: references are rewritten to it and only the first definition
+     * stays. With `reuseVaultIds`, a source another note already cites keeps
+     * that note's ID.
+     * @param content - The markdown content to process
+     * @param options - The note's path and whether to reuse IDs from other notes
+     * @returns Object with updated content and statistics
+     */
+    public dedupeCitations(content: string, options: CitationDedupeOptions = {}): CitationDedupeResult {
+        const segments = segmentMarkdown(content);
+        const proseRanges: Array<[number, number]> = [];
+        let offset = 0;
+        segments.forEach(segment => {
+            if (segment.prose) proseRanges.push([offset, offset + segment.text.length]);
+            offset += segment.text.length;
         });
+        const inProse = (index: number) => proseRanges.some(([from, to]) => index >= from && index < to);
 
-        // Second pass: replace all collected citations with their hex equivalents
-        citationMap.forEach((hexId, originalId) => {
-            // Replace [^123] style citations
-            updatedContent = updatedContent.replace(
-                new RegExp(`\\[\\^${originalId}\\]`, 'g'), 
-                `[^${hexId}]`
-            );
-            
-            // Replace [123] style citations (only if not part of a link)
-            updatedContent = updatedContent.replace(
-                new RegExp(`(^|[^\\])\\[${originalId}\\]`, 'g'),
-                `$1[^${hexId}]`
-            );
-            
-            citationsConverted++;
+        const localIds = new Set(segments
+            .filter(segment => segment.prose)
+            .flatMap(segment => [...segment.text.matchAll(FOOTNOTE_REFERENCE)].map(match => match[1]!)));
+
+        // Definitions with a URL, grouped by source
+        const sources = new Map<string, Array<{ id: string; url: string; line: number }>>();
+        let lineStart = 0;
+        content.split('\n').forEach((line, index) => {
+            const match = line.match(FOOTNOTE_DEFINITION);
+            const url = match && inProse(lineStart) ? definitionUrl(match[2]!) : undefined;
+            lineStart += line.length + 1;
+            if (!url) return;
+            const key = normalizeUrl(url);
+            sources.set(key, [...sources.get(key) ?? [], { id: match![1]!, url, line: index }]);
+        });
+
+        const renames = new Map<string, string>();
+        const dropped = new Set<number>();
+        let idsReused = 0;
+        sources.forEach(definitions => {
+            const ids = [...new Set(definitions.map(definition => definition.id))];
+            const vaultId = options.reuseVaultIds
+                ? this.registry?.idForUrl(definitions[0]!.url, options.path)
+                : undefined;
+            // An ID this note already uses for another source can't be reused
+            const reused = vaultId !== undefined && (ids.includes(vaultId) || !localIds.has(vaultId))
+                ? vaultId
+                : undefined;
+            const canonical = reused
+                ?? ids.find(id => HEX_CITATION.test(id))
+                ?? (ids.length > 1 ? this.generateHexId(6, definitions[0]!.url) : ids[0]!);
+
+            if (reused && !ids.includes(reused)) idsReused++;
+            ids.forEach(id => {
+                if (id !== canonical) renames.set(id, canonical);
+            });
+            definitions.slice(1).forEach(definition => dropped.add(definition.line));
         });
 
+        if (renames.size === 0 && dropped.size === 0) {
+            return { updatedContent: content, changed: false, stats: { definitionsMerged: 0, idsReused: 0 } };
+        }
+
+        // Renaming keeps every line in place, so the dropped line numbers still hold
+        const updatedContent = mapProse(content, text => text.replace(FOOTNOTE_REFERENCE, (match, id: string) => {
+            const canonical = renames.get(id);
+            return canonical ? `[^${canonical}]` : match;
+        })).split('\n').filter((_line, index) => !dropped.has(index)).join('\n');
+
         return {
             updatedContent,
-            changed: citationsConverted > 0,
+            changed: updatedContent !== content,
+            stats: {
+                definitionsMerged: dropped.size,
+                idsReused
+            }
+        };
+    }
+
+    /**
+     * Turn an LLM answer's numbered sources into hex footnotes
+     * @param content - Answer text with `[n]` markers, where n is the 1-based source index
+     * @param sources - Sources in the order the answer numbers them
+     * @returns Object with the rewritten answer, footnote definitions appended, and statistics
+     */
+    public footnoteSources(content: string, sources: CitationSource[]): CitationConversionResult {
+        if (sources.length === 0) {
+            return { updatedContent: content, changed: false, stats: { citationsConverted: 0 } };
+        }
+
+        const hexIds = sources.map(source => this.generateHexId(6, source.url));
+        let citationsConverted = 0;
+
+        // Rewrite [n] markers in prose, leaving links, code and anything without a matching source alone
+        const updatedBody = mapProse(content, text => text.replace(/\[(\d+)\](?!\()/g, (match, id: string) => {
+            const hexId = hexIds[Number(id) - 1];
+            if (!hexId) return match;
+            citationsConverted++;
+            return `[^${hexId}]`;
+        }));
+
+        // Sources with one ID, as derived IDs give a repeated URL, share a definition
+        const definitions = sources.flatMap((source, index) => {
+            if (hexIds.indexOf(hexIds[index]!) !== index) return [];
+            const title = source.title.replace(/([[\]])/g, '\\$1');
+            return [`[^${hexIds[index]}]: [${title}](${source.url})`];
+        });
+
+        return {
+            updatedContent: `${updatedBody.trimEnd()}\n\n${definitions.join('\n')}\n`,
+            changed: true,
             stats: {
                 citationsConverted
             }
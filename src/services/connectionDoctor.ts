@@ -0,0 +1,92 @@
+import { httpClient } from '../utils/http';
+
+export interface ProbeResult {
+    url: string;
+    success: boolean;
+    latencyMs: number;
+    error?: string;
+    details?: Record<string, unknown>;
+}
+
+/**
+ * Hosts where a Dockerised Perplexica is usually reachable:
+ * Docker Desktop on Mac/Windows, the default Linux bridge gateway, and the local machine.
+ */
+export const CANDIDATE_HOSTS = ['host.docker.internal', '172.17.0.1', 'localhost'] as const;
+
+const DEFAULT_PORT = '3030';
+const DEFAULT_PATH = '/api/search';
+/** Probes answer quickly or not at all; don't retry them */
+const PROBE_TIMEOUT_MS = 5_000;
+
+export class ConnectionDoctor {
+    /**
+     * Build the URLs to probe, keeping the configured URL first
+     * @param currentUrl - The URL currently in settings; its port and path are reused for every host
+     */
+    public candidateUrls(currentUrl: string): string[] {
+        let port = DEFAULT_PORT;
+        let path = DEFAULT_PATH;
+        let protocol = 'http:';
+        try {
+            const parsed = new URL(currentUrl);
+            port = parsed.port || port;
+            path = parsed.pathname !== '/' ? parsed.pathname : path;
+            protocol = parsed.protocol;
+        } catch {
+            // Not a valid URL; fall back to Perplexica's defaults
+        }
+
+        const urls = CANDIDATE_HOSTS.map(host => `${protocol}//${host}:${port}${path}`);
+        return [...new Set([currentUrl, ...urls].filter(Boolean))];
+    }
+
+    /**
+     * Check whether anything answers at a URL
+     * @param url - URL to probe
+     * @returns Whether the request went through, with timing and error details
+     */
+    public async probe(url: string): Promise<ProbeResult> {
+        const started = Date.now();
+        try {
+            // Use OPTIONS with no-cors to avoid CORS preflight issues
+            const response = await httpClient.fetch(url, {
+                method: 'OPTIONS',
+                mode: 'no-cors',
+                cache: 'no-store'
+            }, { timeoutMs: PROBE_TIMEOUT_MS, retries: 0 });
+
+            // If we get here, the request went through (even with CORS issues)
+            return {
+                url,
+                success: true,
+                latencyMs: Date.now() - started,
+                details: {
+                    status: response.status,
+                    statusText: response.statusText
+                }
+            };
+        } catch (error) {
+            const err = error instanceof Error ? error : new Error(String(error));
+            return {
+                url,
+                success: false,
+                latencyMs: Date.now() - started,
+                error: err.message,
+                details: {
+                    name: err.name,
+                    isTimeout: err.name === 'HttpTimeoutError',
+                    isNetworkError: err.name === 'TypeError' &&
+                        (err.message.includes('fetch') || err.message.includes('network'))
+                }
+            };
+        }
+    }
+
+    public async probeAll(urls: string[]): Promise<ProbeResult[]> {
+        return Promise.all(urls.map(url => this.probe(url)));
+    }
+}
+
+// Export a singleton instance
+export const connectionDoctor = new ConnectionDoctor();
@@ -1,4 +1,4 @@
-import { exec } from 'child_process';
+import { httpClient } from '../utils/http';
 
 export interface FreepikImage {
     id: number;
@@ -51,26 +51,21 @@ export class FreepikService {
             clean_search: 'true'
         });
 
-        const curlCmd = `
-            curl -X GET \
-                "${FreepikService.API_URL}/resources?${params.toString()}" \
-                -H "Accept: application/json" \
-                -H "x-freepik-api-key: ${this.apiKey}" \
-                --silent --show-error
-        `;
-
         try {
-            const result = await new Promise<string>((resolve, reject) => {
-                exec(curlCmd, (error, stdout, stderr) => {
-                    if (error || stderr) {
-                        console.error('Curl error:', error || stderr);
-                        return reject(error || new Error(stderr));
-                    }
-                    resolve(stdout);
-                });
+            const response = await httpClient.request({
+                url: `${FreepikService.API_URL}/resources?${params.toString()}`,
+                method: 'GET',
+                headers: {
+                    'Accept': 'application/json',
+                    'x-freepik-api-key': this.apiKey
+                }
             });
 
-            return JSON.parse(result) as FreepikSearchResult;
+            if (response.status >= 400) {
+                throw new Error(`HTTP ${response.status}: ${response.text}`);
+            }
+
+            return JSON.parse(response.text) as FreepikSearchResult;
         } catch (error) {
             console.error('Freepik API error:', error);
             throw new Error(`Failed to search images: ${error instanceof Error ? error.message : 'Unknown error'}`);
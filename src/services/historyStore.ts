@@ -0,0 +1,105 @@
+import type { DataAdapter } from 'obsidian';
+import { isRecord, readNumber, readString } from '../providers/requestBody';
+import type { ProviderId } from '../providers/types';
+
+export type RequestStatus = 'success' | 'error' | 'cancelled';
+
+export interface HistoryEntry {
+    id: string;
+    timestamp: string;
+    endpointName: string;
+    provider: ProviderId;
+    url: string;
+    /** Request body exactly as sent from the note */
+    requestBody: string;
+    notePath: string;
+    durationMs: number;
+    status: RequestStatus;
+    response: string;
+    error?: string;
+}
+
+function toEntry(value: unknown): HistoryEntry | null {
+    if (!isRecord(value)) return null;
+
+    const id = readString(value.id);
+    const timestamp = readString(value.timestamp);
+    const requestBody = readString(value.requestBody);
+    const status = value.status;
+    if (!id || !timestamp || requestBody === undefined) return null;
+    if (status !== 'success' && status !== 'error' && status !== 'cancelled') return null;
+
+    const entry: HistoryEntry = {
+        id,
+        timestamp,
+        endpointName: readString(value.endpointName) ?? '',
+        provider: (readString(value.provider) ?? 'perplexica') as ProviderId,
+        url: readString(value.url) ?? '',
+        requestBody,
+        notePath: readString(value.notePath) ?? '',
+        durationMs: readNumber(value.durationMs) ?? 0,
+        status,
+        response: readString(value.response) ?? ''
+    };
+    const error = readString(value.error);
+    if (error) entry.error = error;
+    return entry;
+}
+
+/**
+ * Request/response history persisted as JSON inside the plugin folder
+ */
+export class HistoryStore {
+    private static readonly MAX_ENTRIES = 500;
+    private entries: HistoryEntry[] = [];
+
+    constructor(private adapter: DataAdapter, private path: string) {}
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.adapter.exists(this.path))) return;
+            const data: unknown = JSON.parse(await this.adapter.read(this.path));
+            this.entries = Array.isArray(data)
+                ? data.map(toEntry).filter((entry): entry is HistoryEntry => entry !== null)
+                : [];
+        } catch (error) {
+            // Corrupted history should never block requests; start over
+            console.error('Failed to load request history:', error);
+            this.entries = [];
+        }
+    }
+
+    async add(entry: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry> {
+        const saved: HistoryEntry = {
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            ...entry
+        };
+        this.entries.push(saved);
+
+        // Keep only the most recent entries
+        if (this.entries.length > HistoryStore.MAX_ENTRIES) {
+            this.entries = this.entries.slice(-HistoryStore.MAX_ENTRIES);
+        }
+
+        await this.save();
+        return saved;
+    }
+
+    /** Entries, newest first */
+    list(): HistoryEntry[] {
+        return [...this.entries].reverse();
+    }
+
+    async clear(): Promise<void> {
+        this.entries = [];
+        await this.save();
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await this.adapter.write(this.path, JSON.stringify(this.entries, null, 2));
+        } catch (error) {
+            console.error('Failed to save request history:', error);
+        }
+    }
+}
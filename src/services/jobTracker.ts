@@ -0,0 +1,92 @@
+/**
+ * Handle for one in-flight LLM request
+ */
+export class RequestJob {
+    private controller = new AbortController();
+    readonly startedAt = Date.now();
+
+    constructor(readonly label: string) {}
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    get cancelled(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    /** Seconds since the job started */
+    get elapsedSeconds(): number {
+        return Math.floor((Date.now() - this.startedAt) / 1000);
+    }
+
+    cancel(): void {
+        this.controller.abort();
+    }
+}
+
+/**
+ * Tracks running request jobs and mirrors them in the status bar
+ */
+export class JobTracker {
+    private jobs = new Set<RequestJob>();
+
+    constructor(private statusBarEl: HTMLElement | null) {
+        this.render();
+    }
+
+    start(label: string): RequestJob {
+        const job = new RequestJob(label);
+        this.jobs.add(job);
+        this.render();
+        return job;
+    }
+
+    finish(job: RequestJob): void {
+        this.jobs.delete(job);
+        this.render();
+    }
+
+    get active(): RequestJob[] {
+        return [...this.jobs];
+    }
+
+    /**
+     * Cancel every running job
+     * @returns Number of jobs cancelled
+     */
+    cancelAll(): number {
+        const count = this.jobs.size;
+        this.jobs.forEach(job => job.cancel());
+        this.jobs.clear();
+        this.render();
+        return count;
+    }
+
+    /**
+     * Refresh the status bar text; called on a timer so elapsed time ticks
+     */
+    render(): void {
+        if (!this.statusBarEl) return;
+
+        const jobs = this.active;
+        const first = jobs[0];
+        if (!first) {
+            this.statusBarEl.setText('');
+            this.statusBarEl.hide();
+            return;
+        }
+
+        const label = jobs.length === 1 ? first.label : `${jobs.length} requests`;
+        this.statusBarEl.setText(`⏳ ${label} · ${first.elapsedSeconds}s`);
+        this.statusBarEl.setAttr('aria-label', 'Click to cancel');
+        this.statusBarEl.show();
+    }
+}
+
+/**
+ * Callout appended after partial output so a cancelled answer is never mistaken for a complete one
+ */
+export function cancelledMarker(elapsedSeconds: number): string {
+    return `\n\n> [!cf-cancelled] Request cancelled after ${elapsedSeconds}s\n> The text above is incomplete.\n`;
+}
@@ -0,0 +1,232 @@
+/**
+ * Keeps `[[wikilinks]]` and `[^hexid]` citations alive when an LLM rewrites
+ * existing prose. Both are collected before the call; afterwards anything the
+ * answer dropped is re-attached where the text it was attached to reappears,
+ * and whatever can't be placed is reported.
+ */
+
+export interface LinkEntry {
+    /** The link as written, e.g. `[[Projects/Atlas|the Atlas]]` */
+    raw: string;
+    /** Link target without the heading or block part, e.g. `Projects/Atlas` */
+    path: string;
+    /** Display text, or the basename when the link has none */
+    alias: string;
+    basename: string;
+    embed: boolean;
+}
+
+export interface CitationEntry {
+    /** The marker as written, e.g. `[^a1b2c3]` */
+    raw: string;
+    id: string;
+    /** Up to the last few words before the marker, the text it cites */
+    anchor: string[];
+    /** Whether punctuation sat between the anchor and the marker */
+    afterPunctuation: boolean;
+}
+
+export interface PreservedLinks {
+    links: LinkEntry[];
+    citations: CitationEntry[];
+    /** Footnote definition lines, by id */
+    definitions: Map<string, string>;
+}
+
+export interface PreservationItem {
+    raw: string;
+    /** How it was re-attached, or why it couldn't be */
+    detail: string;
+}
+
+export interface PreservationReport {
+    /** The rewrite with everything that could be re-attached put back */
+    text: string;
+    restored: PreservationItem[];
+    lost: PreservationItem[];
+}
+
+const WIKILINK = /(!?)\[\[([^\]|\n]+)(?:\|([^\]\n]+))?\]\]/g;
+const CITATION = /\[\^([0-9a-f]+)\](?!:)/gi;
+const DEFINITION = /^\[\^([0-9a-f]+)\]:.*$/gim;
+/** Text an entity must not be re-attached inside: links, citations, inline code */
+const PROTECTED = /!?\[\[[^\]\n]*\]\]|\[[^\]\n]*\]\([^)\n]*\)|\[\^[^\]\n]+\]|`[^`\n]*`/g;
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+const ANCHOR_WORDS = 4;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function protectedRanges(text: string): Array<[number, number]> {
+    return [...text.matchAll(PROTECTED)].map(match => [match.index!, match.index! + match[0].length]);
+}
+
+/**
+ * First match of a pattern outside links, citations and inline code
+ */
+function firstUnprotected(text: string, pattern: RegExp): RegExpExecArray | null {
+    const ranges = protectedRanges(text);
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+    for (let match = global.exec(text); match; match = global.exec(text)) {
+        const start = match.index;
+        const end = start + match[0].length;
+        if (!ranges.some(([from, to]) => start < to && end > from)) return match;
+        if (match[0].length === 0) global.lastIndex++;
+    }
+    return null;
+}
+
+/**
+ * Only distinctive aliases are re-linked: a capitalised one of three or more
+ * characters, or one of several words. "it" or "data" would land anywhere.
+ */
+function qualifies(alias: string): boolean {
+    return /\s/.test(alias.trim()) || (alias.length >= 3 && /\p{Lu}/u.test(alias));
+}
+
+export class LinkPreservationService {
+    /**
+     * Collect the wikilinks, citations and footnote definitions in a text
+     */
+    public extract(text: string): PreservedLinks {
+        const links = [...text.matchAll(WIKILINK)].map((match): LinkEntry => {
+            const path = match[2]!.split('#')[0]!.trim();
+            const basename = path.split('/').pop()!.replace(/\.md$/i, '');
+            return {
+                raw: match[0],
+                path,
+                alias: (match[3] ?? basename).trim(),
+                basename,
+                embed: match[1] === '!'
+            };
+        });
+
+        const citations = [...text.matchAll(CITATION)].map((match): CitationEntry => {
+            const lineStart = text.lastIndexOf('\n', match.index! - 1) + 1;
+            const before = text.slice(lineStart, match.index).replace(PROTECTED, ' ');
+            return {
+                raw: match[0],
+                id: match[1]!,
+                anchor: (before.match(WORD) ?? []).slice(-ANCHOR_WORDS),
+                afterPunctuation: /[^\s\p{L}\p{N}]$/u.test(before)
+            };
+        });
+
+        const definitions = new Map<string, string>();
+        for (const match of text.matchAll(DEFINITION)) {
+            definitions.set(match[1]!.toLowerCase(), match[0]);
+        }
+
+        return { links, citations, definitions };
+    }
+
+    /**
+     * Check a rewrite against the text it replaced and re-attach what it dropped.
+     * A dropped link wraps the first unlinked mention of its alias or basename;
+     * a dropped citation goes after the first reappearance of the words before
+     * it; a dropped definition is appended.
+     * @param original - The text before the rewrite
+     * @param rewritten - The LLM's rewrite
+     */
+    public restore(original: string, rewritten: string): PreservationReport {
+        const before = this.extract(original);
+        const restored: PreservationItem[] = [];
+        const lost: PreservationItem[] = [];
+        let text = rewritten;
+
+        const seen = new Set<string>();
+        for (const link of before.links) {
+            const key = link.path.toLowerCase();
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            if (this.extract(text).links.some(l => l.path.toLowerCase() === key)) continue;
+
+            const result = link.embed ? null : this.relink(text, link);
+            if (result) {
+                text = result.text;
+                restored.push({ raw: link.raw, detail: `re-linked at "${result.at}"` });
+            } else {
+                lost.push({
+                    raw: link.raw,
+                    detail: link.embed ? 'embed dropped'
+                        : qualifies(link.alias) || qualifies(link.basename) ? `no mention of "${link.alias}" in the rewrite`
+                        : `"${link.alias}" is too generic to re-link`
+                });
+            }
+        }
+
+        for (const citation of before.citations) {
+            if (new RegExp(`\\[\\^${escapeRegExp(citation.id)}\\](?!:)`, 'i').test(text)) continue;
+
+            const result = this.recite(text, citation);
+            if (result) {
+                text = result.text;
+                restored.push({ raw: citation.raw, detail: `re-attached after "${result.at}"` });
+            } else {
+                lost.push({
+                    raw: citation.raw,
+                    detail: citation.anchor.length > 0
+                        ? `"${citation.anchor.join(' ')}" no longer appears`
+                        : 'nothing to anchor it to'
+                });
+            }
+        }
+
+        const dropped = [...before.definitions].filter(([id]) => !this.extract(text).definitions.has(id));
+        if (dropped.length > 0) {
+            text = `${text.trimEnd()}\n\n${dropped.map(([, line]) => line).join('\n')}\n`;
+            dropped.forEach(([id]) => restored.push({ raw: `[^${id}]:`, detail: 'definition appended' }));
+        }
+
+        return { text, restored, lost };
+    }
+
+    /**
+     * Wrap the first unlinked mention of a link's alias (or basename), keeping
+     * possessives and other suffixes outside the link
+     */
+    private relink(text: string, link: LinkEntry): { text: string; at: string } | null {
+        const names = [...new Set([link.alias, link.basename])].filter(qualifies);
+        for (const name of names) {
+            const words = name.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+            const match = firstUnprotected(text, new RegExp(`(?<![\\p{L}\\p{N}])${words}(?![\\p{L}\\p{N}])`, 'iu'));
+            if (!match) continue;
+
+            const found = match[0];
+            const wrapped = found === link.path ? `[[${found}]]` : `[[${link.path}|${found}]]`;
+            return {
+                text: text.slice(0, match.index) + wrapped + text.slice(match.index + found.length),
+                at: found
+            };
+        }
+        return null;
+    }
+
+    /**
+     * Put a citation back after the first reappearance of the words it
+     * followed, trying the full anchor before its last two words
+     */
+    private recite(text: string, citation: CitationEntry): { text: string; at: string } | null {
+        const anchors = [citation.anchor, citation.anchor.slice(-2)]
+            .filter(words => words.length >= 2 || (words.length === 1 && words[0]!.length >= 4));
+
+        for (const words of anchors) {
+            const pattern = words.map(escapeRegExp).join('[^\\p{L}\\p{N}]+');
+            const punctuation = citation.afterPunctuation ? '[^\\s\\p{L}\\p{N}\\[]*' : '';
+            const match = firstUnprotected(text, new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])${punctuation}`, 'iu'));
+            if (!match) continue;
+
+            const end = match.index + match[0].length;
+            return {
+                text: text.slice(0, end) + citation.raw + text.slice(end),
+                at: match[0]
+            };
+        }
+        return null;
+    }
+}
+
+// Export a singleton instance
+export const linkPreservationService = new LinkPreservationService();
@@ -0,0 +1,140 @@
+import type { LLMEndpoint, LLMProvider, LLMRequestBody, LLMResult, LLMStreamEvent } from '../providers/types';
+import { providerRegistry } from '../providers/providerRegistry';
+import { isStreaming } from '../providers/requestBody';
+import { StreamDecoder } from '../utils/streamDecoder';
+import { HttpCancelledError, HttpTimeoutError, httpClient, withTimeout } from '../utils/http';
+
+export interface LLMSendOptions {
+    /** Called for every event of a streamed response */
+    onEvent?: (event: LLMStreamEvent) => void;
+    /** Aborts the request, including a stream that is still being read */
+    signal?: AbortSignal;
+    /** How long to wait for a response, and between stream chunks; defaults to the HTTP client's timeout */
+    timeoutMs?: number;
+}
+
+export class LLMRequestError extends Error {
+    constructor(
+        message: string,
+        public readonly url: string,
+        public readonly status?: number,
+        public readonly responseText?: string
+    ) {
+        super(message);
+        this.name = 'LLMRequestError';
+    }
+}
+
+export class LLMRequestCancelledError extends Error {
+    constructor() {
+        super('Request cancelled');
+        this.name = 'LLMRequestCancelledError';
+    }
+}
+
+export class LLMService {
+    /**
+     * Send a request body to an endpoint through its provider
+     * @param endpoint - The configured endpoint to call
+     * @param body - Parsed request body; `stream: true` selects the streaming path
+     * @param options - Stream callbacks
+     * @returns The full answer text and any sources
+     */
+    public async send(endpoint: LLMEndpoint, body: LLMRequestBody, options: LLMSendOptions = {}): Promise<LLMResult> {
+        const provider = providerRegistry.get(endpoint.provider);
+        const request = provider.buildRequest(body, endpoint);
+
+        let response: Response;
+        try {
+            response = await httpClient.fetch(request.url, {
+                method: 'POST',
+                headers: request.headers,
+                body: request.body
+            }, {
+                ...(options.signal ? { signal: options.signal } : {}),
+                ...(options.timeoutMs !== undefined ? { timeoutMs: options.timeoutMs } : {})
+            });
+        } catch (error) {
+            throw this.toRequestError(error, request.url, options);
+        }
+
+        if (!response.ok) {
+            const errorText = await response.text().catch(() => 'Could not read error response');
+            throw new LLMRequestError(
+                `HTTP error! status: ${response.status} - ${response.statusText}`,
+                request.url,
+                response.status,
+                errorText
+            );
+        }
+
+        const timeoutMs = options.timeoutMs ?? httpClient.timeoutMs;
+        try {
+            if (!isStreaming(body)) {
+                return provider.parseResponse(await withTimeout(response.text(), timeoutMs, request.url));
+            }
+            return await this.readStream(provider, response, request.url, timeoutMs, options);
+        } catch (error) {
+            throw this.toRequestError(error, request.url, options);
+        }
+    }
+
+    private toRequestError(error: unknown, url: string, options: LLMSendOptions): Error {
+        if (options.signal?.aborted || error instanceof HttpCancelledError) {
+            return new LLMRequestCancelledError();
+        }
+        if (error instanceof LLMRequestError) return error;
+        if (error instanceof HttpTimeoutError) return new LLMRequestError(error.message, url);
+
+        const message = error instanceof Error ? error.message : String(error);
+        return new LLMRequestError(`Network error: ${message}`, url);
+    }
+
+    private async readStream(
+        provider: LLMProvider,
+        response: Response,
+        url: string,
+        timeoutMs: number,
+        options: LLMSendOptions
+    ): Promise<LLMResult> {
+        const reader = response.body?.getReader();
+        if (!reader) throw new LLMRequestError('No response body', url, response.status);
+
+        const decoder = new StreamDecoder(provider);
+        const result: LLMResult = { text: '', sources: [] };
+
+        // Returns true once the provider signals the end of the answer
+        const handleEvents = (events: LLMStreamEvent[]): boolean => {
+            for (const event of events) {
+                if (event.type === 'error') {
+                    throw new LLMRequestError(event.message, url, response.status);
+                }
+                if (event.type === 'text') result.text += event.text;
+                if (event.type === 'sources') result.sources = event.sources;
+                if (event.type === 'usage') result.usage = event.usage;
+                options.onEvent?.(event);
+                if (event.type === 'done') return true;
+            }
+            return false;
+        };
+
+        while (true) {
+            // A server that stops sending mid-answer shouldn't hang the request
+            const { done, value } = await withTimeout(reader.read(), timeoutMs, url).catch(async (error: unknown) => {
+                await reader.cancel().catch(() => undefined);
+                throw error;
+            });
+            if (done) break;
+            if (handleEvents(decoder.push(value))) {
+                await reader.cancel();
+                return result;
+            }
+        }
+
+        handleEvents(decoder.end());
+        return result;
+    }
+}
+
+// Export a singleton instance
+export const llmService = new LLMService();
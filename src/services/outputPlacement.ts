@@ -0,0 +1,144 @@
+import { MarkdownView, normalizePath, TFile } from 'obsidian';
+import type { App, Editor } from 'obsidian';
+import { CalloutStreamWriter, EditorStreamWriter, PreviewStreamWriter } from '../utils/editorStreamWriter';
+import type { OutputTarget, StreamWriter } from '../utils/editorStreamWriter';
+import { HEADING_LINE } from './sectionService';
+import { formatDate } from './templateContext';
+
+export type OutputMode = 'replace-selection' | 'below-selection' | 'under-heading' | 'callout' | 'new-note';
+
+export interface OutputPlacement {
+    mode: OutputMode;
+    /** Heading for `under-heading`; created at the end of the note if missing */
+    heading?: string;
+}
+
+export const OUTPUT_MODE_LABELS: Record<OutputMode, string> = {
+    'replace-selection': 'Replace the selection',
+    'below-selection': 'Insert below the selection',
+    'under-heading': 'Append under a heading',
+    'callout': 'Wrap in a callout',
+    'new-note': 'Write to a new linked note'
+};
+
+export class OutputPlacementService {
+    /**
+     * Prepare the place generated text streams into
+     * @param app - Obsidian app, for creating and opening new notes
+     * @param editor - Editor holding the selection the request was sent from
+     * @param placement - Where the output goes
+     * @param label - Used for the callout title and the new note's name
+     */
+    public async open(app: App, editor: Editor, placement: OutputPlacement, label: string): Promise<StreamWriter> {
+        if (placement.mode === 'new-note') {
+            return this.newNote(app, editor, label);
+        }
+        return this.format(EditorStreamWriter.at(editor, this.target(editor, placement)), placement, label);
+    }
+
+    /**
+     * Like `open`, but collect the output for review instead of writing it
+     * @returns The writer to stream into, and the preview beneath it
+     * @throws Error for placements outside the note, which can't be previewed
+     */
+    public openPreview(editor: Editor, placement: OutputPlacement, label: string): { writer: StreamWriter; preview: PreviewStreamWriter } {
+        if (placement.mode === 'new-note') {
+            throw new Error('New-note output cannot be previewed');
+        }
+        const preview = new PreviewStreamWriter(editor, this.target(editor, placement));
+        return { writer: this.format(preview, placement, label), preview };
+    }
+
+    /**
+     * The range of the note a placement writes to
+     */
+    public target(editor: Editor, placement: OutputPlacement): OutputTarget {
+        switch (placement.mode) {
+            case 'replace-selection':
+                return {
+                    from: editor.posToOffset(editor.getCursor('from')),
+                    to: editor.posToOffset(editor.getCursor('to')),
+                    lead: ''
+                };
+            case 'under-heading':
+                return this.underHeading(editor, placement.heading || 'Generated');
+            default:
+                return this.belowSelection(editor);
+        }
+    }
+
+    private format(writer: StreamWriter, placement: OutputPlacement, label: string): StreamWriter {
+        return placement.mode === 'callout' ? new CalloutStreamWriter(writer, 'ai', label) : writer;
+    }
+
+    private belowSelection(editor: Editor): OutputTarget {
+        const to = editor.getCursor('to');
+        const lineEnd = editor.posToOffset({ line: to.line, ch: editor.getLine(to.line).length });
+        return { from: lineEnd, to: lineEnd, lead: '\n\n' };
+    }
+
+    /**
+     * Append to the end of a heading's section, before the next heading of the same or higher level
+     */
+    private underHeading(editor: Editor, heading: string): OutputTarget {
+        const lines = editor.getValue().split('\n');
+        const wanted = heading.replace(/^#+\s*/, '').trim().toLowerCase();
+
+        let start = -1;
+        let level = 0;
+        for (let i = 0; i < lines.length; i++) {
+            const match = lines[i]!.match(HEADING_LINE);
+            if (match && match[2]!.trim().toLowerCase() === wanted) {
+                start = i;
+                level = match[1]!.length;
+                break;
+            }
+        }
+
+        if (start === -1) {
+            const end = editor.getValue().length;
+            return { from: end, to: end, lead: `\n\n## ${heading.replace(/^#+\s*/, '').trim()}\n\n` };
+        }
+
+        let end = lines.length;
+        for (let i = start + 1; i < lines.length; i++) {
+            const match = lines[i]!.match(HEADING_LINE);
+            if (match && match[1]!.length <= level) {
+                end = i;
+                break;
+            }
+        }
+
+        // Skip trailing blank lines so the output sits right after the section's content
+        let last = end - 1;
+        while (last > start && lines[last]!.trim() === '') last--;
+
+        const offset = editor.posToOffset({ line: last, ch: lines[last]!.length });
+        return { from: offset, to: offset, lead: '\n\n' };
+    }
+
+    /**
+     * Create a note next to the current one, link it below the selection and stream into it
+     */
+    private async newNote(app: App, editor: Editor, label: string): Promise<StreamWriter> {
+        const source = app.workspace.getActiveFile();
+        const folder = source?.parent?.path ?? '';
+        const baseName = `${source?.basename ?? 'Generated'} - ${label} ${formatDate(new Date(), 'YYYY-MM-DD HHmmss')}`
+            .replace(/[\\/:*?"<>|#^[\]]/g, '-');
+        const path = normalizePath(folder && folder !== '/' ? `${folder}/${baseName}.md` : `${baseName}.md`);
+
+        const file = await app.vault.create(path, '');
+        EditorStreamWriter.at(editor, this.belowSelection(editor)).write(`[[${file.basename}]]\n`);
+
+        const leaf = app.workspace.getLeaf('tab');
+        await leaf.openFile(file);
+        const view = leaf.view;
+        if (!(view instanceof MarkdownView) || !(view.file instanceof TFile)) {
+            throw new Error(`Could not open ${file.path} for writing`);
+        }
+        return new EditorStreamWriter(view.editor, 0);
+    }
+}
+
+// Export a singleton instance
+export const outputPlacementService = new OutputPlacementService();
@@ -0,0 +1,49 @@
+import { randomBytes } from 'crypto';
+import type { OutputPlacement } from './outputPlacement';
+
+/**
+ * A named request body template, e.g. "Academic search" or "YouTube search"
+ */
+export interface RequestPreset {
+    id: string;
+    name: string;
+    /** JSON request body; may contain `{{...}}` placeholders */
+    body: string;
+    /** Endpoint to send to; when unset the active endpoint is used */
+    endpointId?: string;
+    /** Where output goes; when unset the default output setting is used */
+    output?: OutputPlacement;
+}
+
+export class PresetService {
+    public create(name: string, body: string): RequestPreset {
+        return { id: randomBytes(4).toString('hex'), name, body };
+    }
+
+    public duplicate(preset: RequestPreset, existing: RequestPreset[]): RequestPreset {
+        const copy: RequestPreset = { ...preset, ...this.create(this.uniqueName(`${preset.name} (copy)`, existing), preset.body) };
+        // Settings edit the placement in place, so the copy needs its own
+        if (preset.output) copy.output = { ...preset.output };
+        return copy;
+    }
+
+    /**
+     * Presets for settings saved before presets existed: the single
+     * `requestBodyTemplate` becomes the "Default" preset.
+     */
+    public seed(requestBodyTemplate: string): RequestPreset[] {
+        return [this.create('Default', requestBodyTemplate)];
+    }
+
+    private uniqueName(name: string, existing: RequestPreset[]): string {
+        const names = new Set(existing.map(preset => preset.name));
+        let candidate = name;
+        for (let n = 2; names.has(candidate); n++) {
+            candidate = `${name} ${n}`;
+        }
+        return candidate;
+    }
+}
+
+// Export a singleton instance
+export const presetService = new PresetService();
@@ -0,0 +1,130 @@
+import type { CftTemplate } from './cftTemplate';
+
+/** An ATX heading line: level marks, then the text, ignoring closing marks */
+export const HEADING_LINE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_LINE = /^\s*(`{3,}|~{3,})/;
+
+export interface NoteSection {
+    heading: string;
+    level: number;
+    /** Headings enclosing this one, outermost first, ending with this heading */
+    path: string[];
+    headingLine: number;
+    /** First line after the heading */
+    bodyStart: number;
+    /** Line of the next heading of any level, or the line count */
+    bodyEnd: number;
+}
+
+interface HeadingLine {
+    line: number;
+    level: number;
+    text: string;
+}
+
+/**
+ * Headings in a note, skipping `#` lines inside code fences
+ */
+function headings(lines: string[]): HeadingLine[] {
+    const found: HeadingLine[] = [];
+    let fence: string | null = null;
+
+    lines.forEach((text, line) => {
+        const marker = text.match(FENCE_LINE)?.[1];
+        if (marker) {
+            if (!fence) fence = marker;
+            else if (marker[0] === fence[0] && text.trim() === marker) fence = null;
+            return;
+        }
+        if (fence) return;
+
+        const match = text.match(HEADING_LINE);
+        if (match) found.push({ line, level: match[1]!.length, text: match[2]!.trim() });
+    });
+    return found;
+}
+
+export class SectionService {
+    /**
+     * The section a line belongs to: the nearest heading at or above it, with
+     * a body that runs to the next heading of any level, so subsections and
+     * their content are never part of it
+     * @returns null when the line is above the first heading
+     */
+    public findSection(lines: string[], line: number): NoteSection | null {
+        const all = headings(lines);
+        let index = -1;
+        all.forEach((heading, i) => {
+            if (heading.line <= line) index = i;
+        });
+        if (index === -1) return null;
+
+        const heading = all[index]!;
+        const path: string[] = [];
+        for (const enclosing of all.slice(0, index + 1)) {
+            path.splice(enclosing.level - 1);
+            path[enclosing.level - 1] = enclosing.text;
+        }
+
+        return {
+            heading: heading.text,
+            level: heading.level,
+            path: path.filter(Boolean),
+            headingLine: heading.line,
+            bodyStart: heading.line + 1,
+            bodyEnd: all[index + 1]?.line ?? lines.length
+        };
+    }
+
+    /**
+     * The instructions a template skeleton gives under a heading, matched by
+     * heading text regardless of case or level
+     * @returns The instructions, or an empty string if the skeleton lacks the heading
+     */
+    public skeletonInstructions(skeleton: string, heading: string): string {
+        const lines = skeleton.split('\n');
+        const wanted = heading.toLowerCase();
+        const all = headings(lines);
+        const index = all.findIndex(h => h.text.toLowerCase() === wanted);
+        if (index === -1) return '';
+
+        const end = all[index + 1]?.line ?? lines.length;
+        return lines.slice(all[index]!.line + 1, end).join('\n').trim();
+    }
+
+    /**
+     * A template whose skeleton asks for one section only. The rest of the
+     * note goes with it as context, passed separately so it isn't interpolated.
+     * @param template - The note's template, for its config and system prompt
+     * @param section - The section being regenerated
+     * @param lines - The note's lines
+     * @returns The section template and the context to append to its prompt
+     */
+    public sectionTemplate(template: CftTemplate, section: NoteSection, lines: string[]): { template: CftTemplate; context: string } {
+        const instructions = this.skeletonInstructions(template.skeleton, section.heading);
+        const skeleton = [
+            `Write only the body of the section "${section.path.join(' > ')}" in the note "{{title}}".`,
+            'Do not repeat the heading and do not write any other section. ' +
+                'Match the style of the surrounding sections.',
+            '',
+            '## Instructions for this section',
+            '',
+            instructions || `No specific instructions; write what belongs under "${section.heading}".`
+        ].join('\n');
+
+        const before = lines.slice(0, section.bodyStart);
+        const after = lines.slice(section.bodyEnd);
+        const context = [
+            '## The rest of the note, for context',
+            '',
+            ...before,
+            '[section being regenerated]',
+            ...after
+        ].join('\n');
+
+        return { template: { ...template, skeleton }, context };
+    }
+}
+
+// Export a singleton instance
+export const sectionService = new SectionService();
@@ -0,0 +1,234 @@
+import type { DataAdapter } from 'obsidian';
+import { isRecord, readString } from '../providers/requestBody';
+
+export type BatchFileStatus = 'pending' | 'running' | 'done' | 'skipped' | 'error' | 'cancelled';
+
+export interface BatchFile {
+    path: string;
+    status: BatchFileStatus;
+    error?: string;
+    /**
+     * The body the file had before this batch started writing to it; kept
+     * until the file finishes, so an interrupted run can be undone and retried
+     */
+    original?: string;
+}
+
+export interface BatchState {
+    /** Vault path of the template, looked up again on resume */
+    templatePath: string;
+    folder: string;
+    startedAt: string;
+    files: BatchFile[];
+}
+
+/** One file's turn in a batch */
+export interface BatchFileRun {
+    path: string;
+    signal: AbortSignal;
+    /** Set when an earlier, unfinished run wrote to the file: its body before that */
+    original?: string;
+    /** Record the body before writing to the file; saved before this resolves */
+    begin(original: string): Promise<void>;
+}
+
+/**
+ * Runs the template on one file
+ * @returns How the file finished; throwing marks it as an error
+ */
+export type BatchFileRunner = (run: BatchFileRun) => Promise<'done' | 'skipped' | 'cancelled'>;
+
+const STATUSES: readonly BatchFileStatus[] = ['pending', 'running', 'done', 'skipped', 'error', 'cancelled'];
+
+function toBatchFile(value: unknown): BatchFile | null {
+    if (!isRecord(value)) return null;
+    const path = readString(value.path);
+    const status = STATUSES.find(s => s === value.status);
+    if (!path || !status) return null;
+
+    const file: BatchFile = { path, status };
+    const error = readString(value.error);
+    if (error) file.error = error;
+    const original = readString(value.original);
+    if (original !== undefined) file.original = original;
+    return file;
+}
+
+function toBatchState(value: unknown): BatchState | null {
+    if (!isRecord(value) || !Array.isArray(value.files)) return null;
+    const templatePath = readString(value.templatePath);
+    if (!templatePath) return null;
+
+    return {
+        templatePath,
+        folder: readString(value.folder) ?? '',
+        startedAt: readString(value.startedAt) ?? new Date().toISOString(),
+        files: value.files.map(toBatchFile).filter((file): file is BatchFile => file !== null)
+    };
+}
+
+/**
+ * A template run across many files, persisted in the plugin folder after
+ * every file so it can resume after a crash or restart
+ */
+export class TemplateBatch {
+    private state: BatchState | null = null;
+    private controller: AbortController | null = null;
+    private listeners = new Set<() => void>();
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(private adapter: DataAdapter, private path: string) {}
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.adapter.exists(this.path))) return;
+            this.state = toBatchState(JSON.parse(await this.adapter.read(this.path)));
+            // Files that were mid-run when Obsidian quit start over from their original body
+            this.state?.files.forEach(file => {
+                if (file.status === 'running') file.status = 'pending';
+            });
+        } catch (error) {
+            console.error('Failed to load template batch:', error);
+            this.state = null;
+        }
+    }
+
+    get current(): BatchState | null {
+        return this.state;
+    }
+
+    get running(): boolean {
+        return this.controller !== null;
+    }
+
+    /** Whether a stopped batch still has files to run or retry */
+    get resumable(): boolean {
+        return !this.running &&
+            (this.state?.files.some(file => file.status === 'pending' || file.status === 'cancelled') ?? false);
+    }
+
+    counts(): Record<BatchFileStatus, number> {
+        const counts: Record<BatchFileStatus, number> = {
+            pending: 0, running: 0, done: 0, skipped: 0, error: 0, cancelled: 0
+        };
+        this.state?.files.forEach(file => counts[file.status]++);
+        return counts;
+    }
+
+    /**
+     * Subscribe to progress
+     * @returns Unsubscribe function
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    async start(templatePath: string, folder: string, paths: string[], run: BatchFileRunner, concurrency: number): Promise<void> {
+        if (this.running) throw new Error('A template batch is already running');
+        this.state = {
+            templatePath,
+            folder,
+            startedAt: new Date().toISOString(),
+            files: paths.map(path => ({ path, status: 'pending' }))
+        };
+        await this.run(run, concurrency);
+    }
+
+    /**
+     * Continue a stopped batch, retrying cancelled files along with the pending ones
+     */
+    async resume(run: BatchFileRunner, concurrency: number): Promise<void> {
+        if (this.running) throw new Error('A template batch is already running');
+        if (!this.state) throw new Error('No template batch to resume');
+        this.state.files.forEach(file => {
+            if (file.status === 'cancelled') file.status = 'pending';
+        });
+        await this.run(run, concurrency);
+    }
+
+    /**
+     * Stop the batch. Files already streaming are cancelled; pending files stay
+     * pending so the batch can be resumed.
+     */
+    cancel(): void {
+        this.controller?.abort();
+    }
+
+    async clear(): Promise<void> {
+        if (this.running) throw new Error('Cancel the running batch first');
+        this.state = null;
+        try {
+            if (await this.adapter.exists(this.path)) await this.adapter.remove(this.path);
+        } catch (error) {
+            console.error('Failed to remove template batch:', error);
+        }
+        this.notify();
+    }
+
+    private async run(run: BatchFileRunner, concurrency: number): Promise<void> {
+        const state = this.state!;
+        const controller = new AbortController();
+        this.controller = controller;
+        await this.save();
+        this.notify();
+
+        const next = () => controller.signal.aborted
+            ? undefined
+            : state.files.find(file => file.status === 'pending');
+
+        const worker = async () => {
+            for (let file = next(); file; file = next()) {
+                file.status = 'running';
+                delete file.error;
+                this.notify();
+
+                try {
+                    file.status = await run({
+                        path: file.path,
+                        signal: controller.signal,
+                        ...(file.original !== undefined ? { original: file.original } : {}),
+                        begin: async (original) => {
+                            file.original = original;
+                            await this.save();
+                        }
+                    });
+                    // A finished answer is the file's body now
+                    if (file.status !== 'cancelled') delete file.original;
+                } catch (error) {
+                    file.status = 'error';
+                    file.error = error instanceof Error ? error.message : String(error);
+                }
+
+                await this.save();
+                this.notify();
+            }
+        };
+
+        try {
+            await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+        } finally {
+            this.controller = null;
+            await this.save();
+            this.notify();
+        }
+    }
+
+    /**
+     * Workers finish concurrently; chain the writes so an older state never lands last
+     */
+    private save(): Promise<void> {
+        this.saving = this.saving.then(async () => {
+            try {
+                await this.adapter.write(this.path, JSON.stringify(this.state, null, 2));
+            } catch (error) {
+                console.error('Failed to save template batch:', error);
+            }
+        });
+        return this.saving;
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
@@ -0,0 +1,157 @@
+import { getFrontMatterInfo, TFile } from 'obsidian';
+import type { App } from 'obsidian';
+import type { VariableResolver } from '../utils/interpolate';
+
+export interface LinkedNote {
+    path: string;
+    basename: string;
+    content: string;
+}
+
+/**
+ * Everything a request template can draw on from the note it runs against
+ */
+export interface TemplateContext {
+    selection: string;
+    title: string;
+    path: string;
+    frontmatter: Record<string, unknown>;
+    /** Frontmatter exactly as written, without the `---` fences */
+    frontmatterYaml: string;
+    /** Headings enclosing the cursor, outermost first */
+    headingPath: string[];
+    linkedNotes: LinkedNote[];
+    now: Date;
+}
+
+export interface ContextOptions {
+    selection?: string;
+    /** Line the heading path is computed for; defaults to the end of the note */
+    line?: number;
+}
+
+/**
+ * Format a date with the common moment tokens (YYYY, YY, MM, M, DD, D, HH, H, mm, ss)
+ */
+export function formatDate(date: Date, format: string): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const tokens: Record<string, string> = {
+        YYYY: String(date.getFullYear()),
+        YY: String(date.getFullYear()).slice(-2),
+        MM: pad(date.getMonth() + 1),
+        M: String(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        D: String(date.getDate()),
+        HH: pad(date.getHours()),
+        H: String(date.getHours()),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds())
+    };
+    return format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, token => tokens[token] ?? token);
+}
+
+export class TemplateContextService {
+    private static readonly MAX_LINKED_NOTES = 10;
+
+    /**
+     * Gather template variables for a note
+     * @param app - Obsidian app, for metadata and linked notes
+     * @param file - The note the template runs against
+     * @param options - Current selection and cursor line
+     */
+    public async build(app: App, file: TFile, options: ContextOptions = {}): Promise<TemplateContext> {
+        const content = await app.vault.cachedRead(file);
+        const cache = app.metadataCache.getFileCache(file);
+        const frontmatter: Record<string, unknown> = { ...(cache?.frontmatter ?? {}) };
+        const info = getFrontMatterInfo(content);
+
+        const title = typeof frontmatter.title === 'string' && frontmatter.title.trim()
+            ? frontmatter.title
+            : file.basename;
+
+        const line = options.line ?? Number.MAX_SAFE_INTEGER;
+        const headingPath: string[] = [];
+        for (const heading of cache?.headings ?? []) {
+            if (heading.position.start.line > line) break;
+            headingPath.splice(heading.level - 1);
+            headingPath[heading.level - 1] = heading.heading;
+        }
+
+        return {
+            selection: options.selection ?? '',
+            title,
+            path: file.path,
+            frontmatter,
+            frontmatterYaml: info.exists ? info.frontmatter.trimEnd() : '',
+            headingPath: headingPath.filter(Boolean),
+            linkedNotes: await this.readLinkedNotes(app, file),
+            now: new Date()
+        };
+    }
+
+    /**
+     * Resolver for `interpolate` / `interpolateJson`.
+     *
+     * Variables: `selection`, `title`, `path`, `folder`, `frontmatter`,
+     * `frontmatter.<field>`, `heading`, `headingPath`, `date`, `date:<format>`,
+     * `linkedNotes`.
+     */
+    public resolver(context: TemplateContext): VariableResolver {
+        return (name: string) => {
+            if (name.startsWith('frontmatter.')) {
+                return context.frontmatter[name.slice('frontmatter.'.length)];
+            }
+            if (name.startsWith('date:')) {
+                return formatDate(context.now, name.slice('date:'.length));
+            }
+
+            switch (name) {
+                case 'selection':
+                    return context.selection;
+                case 'title':
+                    return context.title;
+                case 'path':
+                    return context.path;
+                case 'folder':
+                    return context.path.includes('/') ? context.path.slice(0, context.path.lastIndexOf('/')) : '';
+                case 'frontmatter':
+                    return context.frontmatterYaml;
+                case 'heading':
+                    return context.headingPath[context.headingPath.length - 1] ?? '';
+                case 'headingPath':
+                    return context.headingPath.join(' > ');
+                case 'date':
+                    return formatDate(context.now, 'YYYY-MM-DD');
+                case 'linkedNotes':
+                    return context.linkedNotes
+                        .map(note => `## ${note.basename}\n\n${note.content.trim()}`)
+                        .join('\n\n');
+                default:
+                    return undefined;
+            }
+        };
+    }
+
+    private async readLinkedNotes(app: App, file: TFile): Promise<LinkedNote[]> {
+        const links = app.metadataCache.getFileCache(file)?.links ?? [];
+        const seen = new Set<string>();
+        const notes: LinkedNote[] = [];
+
+        for (const link of links) {
+            if (notes.length >= TemplateContextService.MAX_LINKED_NOTES) break;
+
+            const target = app.metadataCache.getFirstLinkpathDest(link.link.split('#')[0] ?? '', file.path);
+            if (!(target instanceof TFile) || target.extension !== 'md' || seen.has(target.path)) continue;
+            seen.add(target.path);
+
+            const content = await app.vault.cachedRead(target);
+            const body = content.slice(getFrontMatterInfo(content).contentStart);
+            notes.push({ path: target.path, basename: target.basename, content: body });
+        }
+
+        return notes;
+    }
+}
+
+// Export a singleton instance
+export const templateContextService = new TemplateContextService();
@@ -0,0 +1,156 @@
+import { normalizePath, TFile } from 'obsidian';
+import type { App, Component, TAbstractFile } from 'obsidian';
+import { CftTemplateError, cftTemplateService, DEFAULT_TEMPLATES_ROOT, parseCftTemplate } from './cftTemplate';
+import type { CftTemplate } from './cftTemplate';
+import { matchesGlob } from '../utils/glob';
+
+export interface TemplateResolution {
+    /** The single most specific match, or null when there is none or it is ambiguous */
+    template: CftTemplate | null;
+    /** Templates tied for the most specific match; more than one means the globs are ambiguous */
+    candidates: CftTemplate[];
+}
+
+/**
+ * How specific a glob is: the longer its literal prefix and the fewer its
+ * wildcards, the more specific. `Tooling/Agentic AI/**` beats `Tooling/**`.
+ */
+export function globSpecificity(glob: string): number {
+    const firstWildcard = glob.search(/[*?]/);
+    const literal = firstWildcard === -1 ? glob.length : firstWildcard;
+    const wildcards = (glob.match(/\*\*|[*?]/g) ?? []).length;
+    return literal * 100 - wildcards;
+}
+
+/**
+ * Index of the cft templates under the templates root, kept current as
+ * templates are created, edited, renamed or deleted
+ */
+export class TemplateRegistry {
+    protected templates = new Map<string, CftTemplate>();
+    protected errors = new Map<string, CftTemplateError>();
+    protected root = DEFAULT_TEMPLATES_ROOT;
+
+    constructor(private app: App) {}
+
+    /**
+     * Index every template under a root, replacing the current index
+     */
+    async load(root: string): Promise<void> {
+        this.root = normalizePath(root);
+        this.templates.clear();
+        this.errors.clear();
+
+        const files = this.app.vault.getMarkdownFiles().filter(file => this.contains(file.path));
+        for (const file of files) {
+            await this.index(file);
+        }
+    }
+
+    /**
+     * Keep the index current; the events are released with `component`
+     */
+    watch(component: Component): void {
+        const { vault } = this.app;
+        component.registerEvent(vault.on('create', file => void this.update(file)));
+        component.registerEvent(vault.on('modify', file => void this.update(file)));
+        component.registerEvent(vault.on('delete', file => this.forget(file.path)));
+        component.registerEvent(vault.on('rename', (file, oldPath) => {
+            this.forget(oldPath);
+            void this.update(file);
+        }));
+    }
+
+    /** Valid templates, by path */
+    list(): CftTemplate[] {
+        return [...this.templates.values()].sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    get(path: string): CftTemplate | undefined {
+        return this.templates.get(path);
+    }
+
+    /** Templates whose globs match a vault path */
+    matching(path: string): CftTemplate[] {
+        return this.list().filter(template => cftTemplateService.matches(template, path));
+    }
+
+    /**
+     * Pick the template for a vault path by its most specific matching glob
+     */
+    resolve(path: string): TemplateResolution {
+        let best = -Infinity;
+        let candidates: CftTemplate[] = [];
+
+        for (const template of this.list()) {
+            const score = Math.max(...template.appliesToPaths
+                .filter(glob => matchesGlob(path, glob))
+                .map(globSpecificity));
+            if (score === -Infinity) continue;
+
+            if (score > best) {
+                best = score;
+                candidates = [template];
+            } else if (score === best) {
+                candidates.push(template);
+            }
+        }
+
+        return { template: candidates.length === 1 ? candidates[0]! : null, candidates };
+    }
+
+    /**
+     * Templates that failed to parse, templates without globs, and globs
+     * claimed by more than one template
+     */
+    problems(): string[] {
+        const problems = this.parseProblems();
+
+        const owners = new Map<string, string[]>();
+        for (const template of this.list()) {
+            if (template.appliesToPaths.length === 0) {
+                problems.push(`${template.path}: no glob or applies-to-paths, so it is never resolved automatically`);
+            }
+            for (const glob of template.appliesToPaths) {
+                owners.set(glob, [...(owners.get(glob) ?? []), template.path]);
+            }
+        }
+
+        owners.forEach((paths, glob) => {
+            if (paths.length > 1) {
+                problems.push(`Ambiguous glob "${glob}" is used by ${paths.join(', ')}`);
+            }
+        });
+        return problems;
+    }
+
+    protected parseProblems(): string[] {
+        return [...this.errors.values()].map(error => error.message);
+    }
+
+    private contains(path: string): boolean {
+        return path.startsWith(`${this.root}/`) && path.endsWith('.md');
+    }
+
+    private async update(file: TAbstractFile): Promise<void> {
+        if (file instanceof TFile && this.contains(file.path)) {
+            await this.index(file);
+        }
+    }
+
+    private async index(file: TFile): Promise<void> {
+        this.forget(file.path);
+        try {
+            this.templates.set(file.path, parseCftTemplate(file.path, await this.app.vault.cachedRead(file)));
+        } catch (error) {
+            this.errors.set(file.path, error instanceof CftTemplateError
+                ? error
+                : new CftTemplateError(file.path, error instanceof Error ? error.message : String(error)));
+        }
+    }
+
+    private forget(path: string): void {
+        this.templates.delete(path);
+        this.errors.delete(path);
+    }
+}
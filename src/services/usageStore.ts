@@ -0,0 +1,189 @@
+import type { DataAdapter } from 'obsidian';
+import { isRecord, readNumber, readString, toChatMessages } from '../providers/requestBody';
+import type { LLMEndpoint, LLMRequestBody, LLMUsage, ProviderId } from '../providers/types';
+import type { RequestStatus } from './historyStore';
+import { formatDate } from './templateContext';
+
+export interface UsageEntry {
+    id: string;
+    timestamp: string;
+    notePath: string;
+    endpointName: string;
+    provider: ProviderId;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    /** Counts are a local estimate because the provider reported none */
+    estimated: boolean;
+    durationMs: number;
+    status: RequestStatus;
+    /** Only known when the endpoint has prices set */
+    costUsd?: number;
+}
+
+export type UsageGrouping = 'note' | 'folder' | 'day';
+
+export interface UsageSummary {
+    key: string;
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    /** Requests whose counts were estimated */
+    estimated: number;
+    costUsd: number;
+}
+
+/**
+ * Rough token count for text the provider didn't count: about four
+ * characters per token for English prose
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Usage of one request: the provider's counts when it reported them,
+ * otherwise an estimate from the messages sent and the answer received
+ */
+export function measureUsage(
+    endpoint: LLMEndpoint,
+    body: LLMRequestBody,
+    answer: string,
+    reported: LLMUsage | undefined
+): Pick<UsageEntry, 'model' | 'promptTokens' | 'completionTokens' | 'estimated' | 'costUsd'> {
+    const model = reported?.model || readString(body.model) || endpoint.model || endpoint.provider;
+    const promptTokens = reported?.promptTokens
+        // Chat formats add a few tokens of framing per message
+        ?? toChatMessages(body).reduce((sum, message) => sum + estimateTokens(message.content) + 4, 0);
+    const completionTokens = reported?.completionTokens ?? estimateTokens(answer);
+
+    const priced = endpoint.inputCostPerMillion !== undefined || endpoint.outputCostPerMillion !== undefined;
+    const costUsd = (promptTokens * (endpoint.inputCostPerMillion ?? 0) +
+        completionTokens * (endpoint.outputCostPerMillion ?? 0)) / 1_000_000;
+
+    return {
+        model,
+        promptTokens,
+        completionTokens,
+        estimated: !reported,
+        ...(priced ? { costUsd } : {})
+    };
+}
+
+function toEntry(value: unknown): UsageEntry | null {
+    if (!isRecord(value)) return null;
+
+    const id = readString(value.id);
+    const timestamp = readString(value.timestamp);
+    const status = value.status;
+    if (!id || !timestamp) return null;
+    if (status !== 'success' && status !== 'error' && status !== 'cancelled') return null;
+
+    const entry: UsageEntry = {
+        id,
+        timestamp,
+        notePath: readString(value.notePath) ?? '',
+        endpointName: readString(value.endpointName) ?? '',
+        provider: (readString(value.provider) ?? 'perplexica') as ProviderId,
+        model: readString(value.model) ?? '',
+        promptTokens: readNumber(value.promptTokens) ?? 0,
+        completionTokens: readNumber(value.completionTokens) ?? 0,
+        estimated: value.estimated === true,
+        durationMs: readNumber(value.durationMs) ?? 0,
+        status
+    };
+    const costUsd = readNumber(value.costUsd);
+    if (costUsd !== undefined) entry.costUsd = costUsd;
+    return entry;
+}
+
+function groupKey(entry: UsageEntry, grouping: UsageGrouping): string {
+    switch (grouping) {
+        case 'note':
+            return entry.notePath || '(no note)';
+        case 'folder': {
+            const slash = entry.notePath.lastIndexOf('/');
+            return slash === -1 ? '/' : entry.notePath.slice(0, slash);
+        }
+        case 'day':
+            return formatDate(new Date(entry.timestamp), 'YYYY-MM-DD');
+    }
+}
+
+/**
+ * Token usage of every request, persisted as JSON inside the plugin folder
+ */
+export class UsageStore {
+    private static readonly MAX_ENTRIES = 10000;
+    private entries: UsageEntry[] = [];
+
+    constructor(private adapter: DataAdapter, private path: string) {}
+
+    async load(): Promise<void> {
+        try {
+            if (!(await this.adapter.exists(this.path))) return;
+            const data: unknown = JSON.parse(await this.adapter.read(this.path));
+            this.entries = Array.isArray(data)
+                ? data.map(toEntry).filter((entry): entry is UsageEntry => entry !== null)
+                : [];
+        } catch (error) {
+            console.error('Failed to load token usage:', error);
+            this.entries = [];
+        }
+    }
+
+    async add(entry: Omit<UsageEntry, 'id'>): Promise<UsageEntry> {
+        const saved: UsageEntry = {
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            ...entry
+        };
+        this.entries.push(saved);
+        if (this.entries.length > UsageStore.MAX_ENTRIES) {
+            this.entries = this.entries.slice(-UsageStore.MAX_ENTRIES);
+        }
+
+        await this.save();
+        return saved;
+    }
+
+    /** Entries, newest first */
+    list(): UsageEntry[] {
+        return [...this.entries].reverse();
+    }
+
+    /**
+     * Totals per note, folder or day, largest first (days newest first)
+     */
+    summarize(grouping: UsageGrouping): UsageSummary[] {
+        const groups = new Map<string, UsageSummary>();
+        for (const entry of this.entries) {
+            const key = groupKey(entry, grouping);
+            const summary = groups.get(key)
+                ?? { key, requests: 0, promptTokens: 0, completionTokens: 0, estimated: 0, costUsd: 0 };
+            summary.requests++;
+            summary.promptTokens += entry.promptTokens;
+            summary.completionTokens += entry.completionTokens;
+            summary.costUsd += entry.costUsd ?? 0;
+            if (entry.estimated) summary.estimated++;
+            groups.set(key, summary);
+        }
+
+        const summaries = [...groups.values()];
+        return grouping === 'day'
+            ? summaries.sort((a, b) => b.key.localeCompare(a.key))
+            : summaries.sort((a, b) => (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens));
+    }
+
+    async clear(): Promise<void> {
+        this.entries = [];
+        await this.save();
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await this.adapter.write(this.path, JSON.stringify(this.entries, null, 2));
+        } catch (error) {
+            console.error('Failed to save token usage:', error);
+        }
+    }
+}
@@ -0,0 +1,95 @@
+import { TemplateRegistry } from './templateRegistry';
+import type { CftTemplate } from './cftTemplate';
+
+export const DEFAULT_VERBS_ROOT = 'zz-cf-lib/verbs';
+
+export interface VerbResolution {
+    verb: CftTemplate;
+    /** Registry name of the verb, e.g. `improve-selection-strict` */
+    name: string;
+    /** Tokens left over after the verb, e.g. `preserve-citations` */
+    modifiers: string[];
+}
+
+/**
+ * The folder structure under the verbs root is the registry:
+ * `<verb>/<variant>.md` registers `verb-variant`, `<verb>/<subverb>/<variant>.md`
+ * registers `verb-subverb-variant`, and a `default` variant registers the path
+ * without it. Verb files share the cft template format.
+ */
+export class VerbRegistry extends TemplateRegistry {
+    /**
+     * Registry name for a verb file, or null if it sits deeper than `verb/subverb/variant`
+     */
+    verbName(path: string): string | null {
+        const segments = path.slice(this.root.length + 1).replace(/\.md$/, '').split('/');
+        if (segments.length > 3) return null;
+        if (segments.length > 1 && segments[segments.length - 1] === 'default') segments.pop();
+        return segments.join('-');
+    }
+
+    /** Verbs by registry name */
+    verbs(): Map<string, CftTemplate> {
+        const verbs = new Map<string, CftTemplate>();
+        for (const template of this.list()) {
+            const name = this.verbName(template.path);
+            if (name && !verbs.has(name)) verbs.set(name, template);
+        }
+        return verbs;
+    }
+
+    /**
+     * Resolve fence tokens to a verb by longest prefix. Tokens are split on
+     * hyphens, so `cf-improve-selection-strict` and `cf improve-selection strict`
+     * resolve alike; whatever follows the verb becomes modifiers.
+     */
+    resolveVerb(tokens: string[]): VerbResolution | null {
+        const verbs = this.verbs();
+        const words = tokens.flatMap((token, index) =>
+            token.split('-').filter(Boolean).map(word => ({ word, index })));
+
+        for (let length = words.length; length > 0; length--) {
+            const name = words.slice(0, length).map(w => w.word).join('-');
+            const verb = verbs.get(name);
+            if (!verb) continue;
+
+            // Regroup the leftover words by the token they came from
+            const modifiers: string[] = [];
+            let lastIndex = -1;
+            for (const { word, index } of words.slice(length)) {
+                if (index === lastIndex) {
+                    modifiers[modifiers.length - 1] += `-${word}`;
+                } else {
+                    modifiers.push(word);
+                    lastIndex = index;
+                }
+            }
+            return { verb, name, modifiers };
+        }
+        return null;
+    }
+
+    /**
+     * Verb files that fail to parse, sit too deep, or claim the same name
+     */
+    override problems(): string[] {
+        const problems = this.parseProblems();
+        const owners = new Map<string, string[]>();
+
+        for (const template of this.list()) {
+            const name = this.verbName(template.path);
+            if (!name) {
+                problems.push(`${template.path}: verbs nest at most two folders deep (verb/subverb/variant.md)`);
+                continue;
+            }
+            owners.set(name, [...(owners.get(name) ?? []), template.path]);
+        }
+
+        owners.forEach((paths, name) => {
+            if (paths.length > 1) {
+                problems.push(`Verb "${name}" is defined by ${paths.join(', ')}; the first is used`);
+            }
+        });
+        return problems;
+    }
+}
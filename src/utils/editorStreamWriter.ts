@@ -0,0 +1,168 @@
+import type { Editor } from 'obsidian';
+
+/**
+ * Destination for streamed LLM output
+ */
+export interface StreamWriter {
+    write(text: string): void;
+    /** Replace everything written so far, e.g. once the full answer is known */
+    replaceWritten(text: string): void;
+    /** Text written so far, as the model produced it */
+    readonly text: string;
+}
+
+/**
+ * Where output goes in a note: the range it replaces (empty to insert) and
+ * what is written ahead of it
+ */
+export interface OutputTarget {
+    from: number;
+    to: number;
+    /** Written before the answer, e.g. blank lines or a new heading */
+    lead: string;
+}
+
+/**
+ * Writes streamed text into the editor at a fixed anchor.
+ *
+ * The write position is tracked as an offset so each chunk lands after the
+ * previous one, even when the user moves the cursor mid-stream.
+ */
+export class EditorStreamWriter implements StreamWriter {
+    private written = '';
+    private readonly start: number;
+
+    constructor(private editor: Editor, private offset: number) {
+        this.start = offset;
+    }
+
+    /**
+     * Clear a target's range and write its lead
+     */
+    static at(editor: Editor, target: OutputTarget): EditorStreamWriter {
+        if (target.to > target.from) {
+            editor.replaceRange('', editor.offsetToPos(target.from), editor.offsetToPos(target.to));
+        }
+        const writer = new EditorStreamWriter(editor, target.from);
+        writer.write(target.lead);
+        return writer;
+    }
+
+    /**
+     * Create a writer anchored at the end of the document
+     */
+    static atEnd(editor: Editor): EditorStreamWriter {
+        return new EditorStreamWriter(editor, editor.getValue().length);
+    }
+
+    public write(text: string): void {
+        if (!text) return;
+        this.editor.replaceRange(text, this.editor.offsetToPos(this.offset));
+        this.offset += text.length;
+        this.written += text;
+        this.editor.setCursor(this.editor.offsetToPos(this.offset));
+    }
+
+    public replaceWritten(text: string): void {
+        this.editor.replaceRange(
+            text,
+            this.editor.offsetToPos(this.start),
+            this.editor.offsetToPos(this.offset)
+        );
+        this.offset = this.start + text.length;
+        this.written = text;
+        this.editor.setCursor(this.editor.offsetToPos(this.offset));
+    }
+
+    /** Text written so far */
+    public get text(): string {
+        return this.written;
+    }
+
+    /** Offset just after the last written character */
+    public get position(): number {
+        return this.offset;
+    }
+}
+
+/**
+ * Split the footnote definitions at the end of a text from the rest
+ */
+function splitDefinitions(text: string): { body: string; definitions: string } {
+    const lines = text.trimEnd().split('\n');
+    let start = lines.length;
+    while (start > 0 && /^\[\^[^\]\s]+\]:/.test(lines[start - 1]!)) start--;
+    return { body: lines.slice(0, start).join('\n'), definitions: lines.slice(start).join('\n') };
+}
+
+/**
+ * Streams into a callout, prefixing every line with `> `
+ */
+export class CalloutStreamWriter implements StreamWriter {
+    private written = '';
+    private readonly header: string;
+    /** What the inner writer held before the callout, e.g. the target's lead */
+    private readonly prefix: string;
+
+    constructor(private inner: StreamWriter, type: string, title: string) {
+        this.header = `> [!${type}] ${title}\n> `;
+        this.prefix = inner.text;
+        this.inner.write(this.header);
+    }
+
+    public write(text: string): void {
+        this.written += text;
+        this.inner.write(this.quote(text));
+    }
+
+    /**
+     * Footnote definitions at the end go below the callout, where Obsidian
+     * still resolves them
+     */
+    public replaceWritten(text: string): void {
+        this.written = text;
+        const { body, definitions } = splitDefinitions(text);
+        const callout = `${this.header}${this.quote(body.trimEnd())}\n`;
+        this.inner.replaceWritten(this.prefix + callout + (definitions ? `\n${definitions}\n` : ''));
+    }
+
+    public get text(): string {
+        return this.written;
+    }
+
+    private quote(text: string): string {
+        return text.replace(/\n/g, '\n> ');
+    }
+}
+
+/**
+ * Collects output for a target without touching the note, so the result can
+ * be reviewed as a diff before anything is written
+ */
+export class PreviewStreamWriter implements StreamWriter {
+    private written = '';
+    /** The note when the preview started; the target's offsets refer to it */
+    public readonly before: string;
+
+    constructor(editor: Editor, public readonly target: OutputTarget) {
+        this.before = editor.getValue();
+        this.write(target.lead);
+    }
+
+    public write(text: string): void {
+        this.written += text;
+    }
+
+    public replaceWritten(text: string): void {
+        this.written = text;
+    }
+
+    public get text(): string {
+        return this.written;
+    }
+
+    /** The note as it would read with the output written */
+    public get after(): string {
+        return this.before.slice(0, this.target.from) + this.written + this.before.slice(this.target.to);
+    }
+}
@@ -0,0 +1,31 @@
+/**
+ * Compile a vault path glob: `**` matches across folders, `*` within one folder,
+ * `?` a single character. Matching is case-sensitive, like vault paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i]!;
+        if (char === '*' && glob[i + 1] === '*') {
+            // `**/` also matches zero folders
+            if (glob[i + 2] === '/') {
+                pattern += '(?:.*/)?';
+                i += 2;
+            } else {
+                pattern += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+export function matchesGlob(path: string, glob: string): boolean {
+    return globToRegExp(glob.replace(/^\/+/, '')).test(path);
+}
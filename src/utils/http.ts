@@ -0,0 +1,202 @@
+import { requestUrl } from 'obsidian';
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+
+export interface HttpPolicy {
+    /** How long to wait for a response before giving up on an attempt */
+    timeoutMs: number;
+    /** Extra attempts after the first, for network errors, timeouts, 5xx and 429 */
+    retries: number;
+    /** Delay before the first retry; doubles on every retry */
+    backoffMs: number;
+    maxBackoffMs: number;
+    /** A 429 asking to wait longer than this is returned instead of retried */
+    maxRetryAfterMs: number;
+}
+
+export interface HttpRequestOptions extends Partial<HttpPolicy> {
+    /** Aborts the request, including any wait between attempts */
+    signal?: AbortSignal;
+}
+
+export const DEFAULT_HTTP_POLICY: HttpPolicy = {
+    timeoutMs: 300_000,
+    retries: 2,
+    backoffMs: 1_000,
+    maxBackoffMs: 30_000,
+    maxRetryAfterMs: 60_000
+};
+
+export class HttpTimeoutError extends Error {
+    constructor(public readonly url: string, public readonly timeoutMs: number) {
+        super(`No response from ${url} after ${Math.round(timeoutMs / 1000)}s`);
+        this.name = 'HttpTimeoutError';
+    }
+}
+
+export class HttpCancelledError extends Error {
+    constructor(public readonly url: string) {
+        super('Request cancelled');
+        this.name = 'HttpCancelledError';
+    }
+}
+
+interface Attempt<T> {
+    result: T;
+    status: number;
+    retryAfter: string | null;
+}
+
+/**
+ * Reject with `HttpTimeoutError` if a promise takes longer than `timeoutMs`
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, url: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new HttpTimeoutError(url, timeoutMs)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Parse a `Retry-After` header, given either as seconds or as an HTTP date
+ * @returns Milliseconds to wait, or null if the header is missing or unreadable
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+    if (!value) return null;
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export class HttpClient {
+    private policy: HttpPolicy = { ...DEFAULT_HTTP_POLICY };
+
+    /**
+     * Change the defaults every request starts from
+     */
+    public configure(policy: Partial<HttpPolicy>): void {
+        this.policy = { ...this.policy, ...policy };
+    }
+
+    public get timeoutMs(): number {
+        return this.policy.timeoutMs;
+    }
+
+    /**
+     * `fetch` with a timeout and retries. The response is returned once headers
+     * arrive; a caller reading a long body should bound each read with `withTimeout`.
+     * Non-retryable statuses are returned as-is, so callers still check `ok`.
+     */
+    public async fetch(url: string, init: RequestInit = {}, options: HttpRequestOptions = {}): Promise<Response> {
+        const policy = this.resolve(options);
+        return this.withRetries(url, policy, options.signal, async () => {
+            const controller = new AbortController();
+            // Left attached on success so cancelling still stops a body being read
+            const onAbort = () => controller.abort();
+            options.signal?.addEventListener('abort', onAbort);
+
+            let timedOut = false;
+            const timer = setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, policy.timeoutMs);
+
+            try {
+                const response = await fetch(url, { ...init, signal: controller.signal });
+                return { result: response, status: response.status, retryAfter: response.headers.get('Retry-After') };
+            } catch (error) {
+                options.signal?.removeEventListener('abort', onAbort);
+                throw timedOut ? new HttpTimeoutError(url, policy.timeoutMs) : error;
+            } finally {
+                clearTimeout(timer);
+            }
+        }, response => {
+            // Free the connection before retrying
+            response.body?.cancel().catch(() => undefined);
+        });
+    }
+
+    /**
+     * Obsidian's `requestUrl` (not subject to CORS) with a timeout and retries.
+     * Errors are reported through the returned status rather than thrown.
+     */
+    public async request(params: RequestUrlParam, options: HttpRequestOptions = {}): Promise<RequestUrlResponse> {
+        const policy = this.resolve(options);
+        return this.withRetries(params.url, policy, options.signal, async () => {
+            const response = await withTimeout(requestUrl({ ...params, throw: false }), policy.timeoutMs, params.url);
+            const header = Object.entries(response.headers)
+                .find(([name]) => name.toLowerCase() === 'retry-after');
+            return { result: response, status: response.status, retryAfter: header?.[1] ?? null };
+        });
+    }
+
+    private resolve(options: HttpRequestOptions): HttpPolicy {
+        const { signal: _signal, ...overrides } = options;
+        return { ...this.policy, ...overrides };
+    }
+
+    private async withRetries<T>(
+        url: string,
+        policy: HttpPolicy,
+        signal: AbortSignal | undefined,
+        attempt: () => Promise<Attempt<T>>,
+        discard?: (result: T) => void
+    ): Promise<T> {
+        for (let retry = 0; ; retry++) {
+            if (signal?.aborted) throw new HttpCancelledError(url);
+
+            let outcome: Attempt<T>;
+            try {
+                outcome = await attempt();
+            } catch (error) {
+                if (signal?.aborted) throw new HttpCancelledError(url);
+                if (retry >= policy.retries) throw error;
+                console.warn(`Request to ${url} failed, retrying:`, error);
+                await this.sleep(this.backoff(retry, policy), url, signal);
+                continue;
+            }
+
+            const { result, status, retryAfter } = outcome;
+            if (retry >= policy.retries || !(status === 429 || status >= 500)) {
+                return result;
+            }
+
+            let delay = this.backoff(retry, policy);
+            if (status === 429) {
+                const requested = parseRetryAfter(retryAfter);
+                if (requested !== null && requested > policy.maxRetryAfterMs) return result;
+                delay = requested ?? delay;
+            }
+
+            console.warn(`Request to ${url} returned ${status}, retrying in ${delay}ms`);
+            discard?.(result);
+            await this.sleep(delay, url, signal);
+        }
+    }
+
+    /**
+     * Exponential backoff with jitter, so parallel requests don't retry in lockstep
+     */
+    private backoff(retry: number, policy: HttpPolicy): number {
+        const delay = Math.min(policy.maxBackoffMs, policy.backoffMs * 2 ** retry);
+        return Math.round(delay * (0.5 + Math.random() / 2));
+    }
+
+    private sleep(ms: number, url: string, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new HttpCancelledError(url));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+}
+
+// Export a singleton instance
+export const httpClient = new HttpClient();
@@ -0,0 +1,96 @@
+/**
+ * Resolves a `{{name}}` placeholder. Returning undefined leaves the placeholder untouched.
+ */
+export type VariableResolver = (name: string) => unknown;
+
+export interface InterpolationResult {
+    text: string;
+    /** Placeholders the resolver did not know */
+    unresolved: string[];
+}
+
+const PLACEHOLDER = /\\?\{\{\s*([^{}]+?)\s*\}\}/g;
+/** A placeholder, or an escaped `\}}` on its own */
+const TEXT_TOKEN = /\\\}\}|\\?\{\{\s*([^{}]+?)\s*\}\}/g;
+
+function toText(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+/**
+ * Replace `{{name}}` placeholders in plain text (prompts, skeletons).
+ * `\{{` and `\}}` escape literal braces.
+ */
+export function interpolate(template: string, resolve: VariableResolver): InterpolationResult {
+    const unresolved: string[] = [];
+    const text = template.replace(TEXT_TOKEN, (match: string, name: string | undefined) => {
+        if (match.startsWith('\\')) return match.slice(1).replace(/\\\}\}$/, '}}');
+        if (name === undefined) return match;
+        const value = resolve(name);
+        if (value === undefined) {
+            unresolved.push(name);
+            return match;
+        }
+        return toText(value);
+    });
+    return { text, unresolved };
+}
+
+/**
+ * Replace placeholders in a JSON template, escaping each value for where it sits.
+ *
+ * Inside a string literal (`"query": "{{selection}}"`) the value is JSON-escaped
+ * in place. Outside one (`"maxTokens": {{frontmatter.maxTokens}}`) it is written
+ * as a JSON literal, so numbers, booleans and arrays keep their type.
+ */
+export function interpolateJson(template: string, resolve: VariableResolver): InterpolationResult {
+    const unresolved: string[] = [];
+    let text = '';
+    let inString = false;
+    let i = 0;
+
+    while (i < template.length) {
+        const char = template[i]!;
+
+        if (char === '\\' && template.startsWith('\\{{', i)) {
+            text += '{{';
+            i += 3;
+            continue;
+        }
+
+        if (char === '{' && template.startsWith('{{', i)) {
+            PLACEHOLDER.lastIndex = i;
+            const match = PLACEHOLDER.exec(template);
+            if (match && match.index === i) {
+                const name = match[1]!;
+                const value = resolve(name);
+                if (value === undefined) {
+                    unresolved.push(name);
+                    text += match[0];
+                } else if (inString) {
+                    text += JSON.stringify(toText(value)).slice(1, -1);
+                } else {
+                    text += JSON.stringify(value);
+                }
+                i += match[0].length;
+                continue;
+            }
+        }
+
+        if (inString && char === '\\') {
+            // Copy the escape sequence whole so an escaped quote doesn't end the string
+            text += template.slice(i, i + 2);
+            i += 2;
+            continue;
+        }
+
+        if (char === '"') inString = !inString;
+        text += char;
+        i++;
+    }
+
+    return { text, unresolved };
+}
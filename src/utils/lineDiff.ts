@@ -0,0 +1,119 @@
+export interface DiffLine {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * Line-based diff using the longest common subsequence
+ * @param before - Original text
+ * @param after - Changed text
+ * @returns Lines in order, tagged as unchanged, added or removed
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i]![j] = a[i] === b[j]
+                ? lcs[i + 1]![j + 1]! + 1
+                : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: 'equal', text: a[i]! });
+            i++;
+            j++;
+        } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+            lines.push({ type: 'removed', text: a[i]! });
+            i++;
+        } else {
+            lines.push({ type: 'added', text: b[j]! });
+            j++;
+        }
+    }
+    while (i < a.length) lines.push({ type: 'removed', text: a[i++]! });
+    while (j < b.length) lines.push({ type: 'added', text: b[j++]! });
+
+    return lines;
+}
+
+/**
+ * A run of changed lines with the unchanged lines before it
+ */
+export interface DiffHunk {
+    /** Unchanged lines leading up to the change */
+    context: string[];
+    removed: string[];
+    added: string[];
+}
+
+export interface DiffHunks {
+    hunks: DiffHunk[];
+    /** Unchanged lines after the last change */
+    trailing: string[];
+}
+
+/**
+ * Group a line diff into hunks that can be accepted one at a time. Lines the
+ * two texts share at the start and end are set aside first, so a small change
+ * to a long note doesn't pay for a full LCS table.
+ */
+export function diffHunks(before: string, after: string): DiffHunks {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let head = 0;
+    while (head < a.length && head < b.length && a[head] === b[head]) head++;
+    let tail = 0;
+    while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+    // An empty side would split back into one blank line, so it is handled here
+    const removed = a.slice(head, a.length - tail);
+    const added = b.slice(head, b.length - tail);
+    const middle: DiffLine[] = removed.length === 0 || added.length === 0
+        ? [
+            ...removed.map((text): DiffLine => ({ type: 'removed', text })),
+            ...added.map((text): DiffLine => ({ type: 'added', text }))
+        ]
+        : diffLines(removed.join('\n'), added.join('\n'));
+
+    const hunks: DiffHunk[] = [];
+    let context = a.slice(0, head);
+    let hunk: DiffHunk | null = null;
+    for (const line of middle) {
+        if (line.type === 'equal') {
+            hunk = null;
+            context.push(line.text);
+            continue;
+        }
+        if (!hunk) {
+            hunk = { context, removed: [], added: [] };
+            hunks.push(hunk);
+            context = [];
+        }
+        (line.type === 'removed' ? hunk.removed : hunk.added).push(line.text);
+    }
+
+    return { hunks, trailing: [...context, ...a.slice(a.length - tail)] };
+}
+
+/**
+ * Rebuild the text with only some hunks applied
+ * @param accepted - Whether each hunk, in order, takes its added lines
+ */
+export function applyHunks(diff: DiffHunks, accepted: boolean[]): string {
+    const lines: string[] = [];
+    diff.hunks.forEach((hunk, index) => {
+        lines.push(...hunk.context, ...(accepted[index] ? hunk.added : hunk.removed));
+    });
+    lines.push(...diff.trailing);
+    return lines.join('\n');
+}
@@ -0,0 +1,171 @@
+/**
+ * Splits markdown into prose and the spans that must never be rewritten as
+ * prose: frontmatter, fenced and indented code, math, inline code, links,
+ * HTML, bare URLs and backslash escapes. Joining the segments gives back the input.
+ */
+
+export interface MarkdownSegment {
+    text: string;
+    /** False for code, frontmatter, links and other literal spans */
+    prose: boolean;
+}
+
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const FENCE_OPEN = /^([ \t]*(?:(?:[-*+]|\d{1,9}[.)])[ \t]+)*)(`{3,}|~{3,}|\$\$)/;
+
+/**
+ * Inline spans that are literal text, tried in order at each position.
+ * Link text may nest one level of brackets, as in `[see [1]](url)`.
+ */
+const INLINE_LITERAL = new RegExp([
+    /\\[\s\S]/.source,                                                  // backslash escape
+    /(`+)(?!`)(?:(?!\n[ \t]*\n)[\s\S])*?(?<!`)\1(?!`)/.source,          // inline code, within a paragraph
+    /<!--[\s\S]*?-->/.source,                                           // HTML comment
+    /!?\[\[[^\]\n]*\]\]/.source,                                        // wikilink or embed
+    /!?\[(?:[^[\]\n]|\[[^[\]\n]*\])*\]\([^)\n]*\)/.source,              // inline link or image
+    /!?\[(?!\^)(?=[^\]\n]*[^\d,\-–\s\]])[^[\]\n]+\]\[[^\]\n]*\]/.source, // reference link, e.g. [text][1], not [1, 2][3]
+    /<https?:\/\/[^>\s]+>/.source,                                      // autolink
+    /<\/?[A-Za-z][^>\n]*>/.source,                                      // HTML tag
+    /\$(?=\S)[^$\n]*?(?<=\S)\$(?!\d)/.source,                           // inline math, not prices
+    /https?:\/\/[^\s<>[\]()]+/.source                                   // bare URL
+].join('|'), 'g');
+
+function pushSegment(segments: MarkdownSegment[], text: string, prose: boolean): void {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.prose === prose) last.text += text;
+    else segments.push({ text, prose });
+}
+
+/**
+ * Split prose text further around inline literals
+ */
+function segmentInline(segments: MarkdownSegment[], text: string): void {
+    let index = 0;
+    for (const match of text.matchAll(INLINE_LITERAL)) {
+        pushSegment(segments, text.slice(index, match.index), true);
+        pushSegment(segments, match[0], false);
+        index = match.index! + match[0].length;
+    }
+    pushSegment(segments, text.slice(index), true);
+}
+
+/** Width of leading whitespace, with tabs stopping every four columns */
+function columns(text: string): number {
+    let width = 0;
+    for (const char of text) width = char === '\t' ? width + 4 - width % 4 : width + 1;
+    return width;
+}
+
+/**
+ * The state of a block scan: which literal block is open, and the content
+ * columns of the list items the current line may belong to
+ */
+interface BlockState {
+    fence: { marker: string; indent: number } | null;
+    /** Indentation an indented code block's lines need, while one is open */
+    indentedCode: number | null;
+    lists: number[];
+    afterBlank: boolean;
+}
+
+/**
+ * Classify one line as literal (code or math) or prose, updating the state
+ */
+function scanLine(state: BlockState, line: string): boolean {
+    // Blockquote markers are containers; what follows them is what counts
+    const body = line.replace(/^(?:[ \t]*>[ \t]?)*/, '');
+    const blank = body.trim() === '';
+    const indent = columns(body.match(/^[ \t]*/)![0]);
+
+    if (state.fence) {
+        const { marker } = state.fence;
+        const closer = body.match(/^([ \t]*)(`{3,}|~{3,})[ \t]*\r?\n?$/);
+        const closes = marker === '$$'
+            ? body.trim().endsWith('$$')
+            : closer !== null && closer[2]!.startsWith(marker) && columns(closer[1]!) <= state.fence.indent + 3;
+        if (closes) {
+            state.fence = null;
+            state.afterBlank = true;
+        }
+        return false;
+    }
+
+    if (state.indentedCode !== null) {
+        if (blank || indent >= state.indentedCode) return false;
+        state.indentedCode = null;
+    }
+
+    if (blank) {
+        state.afterBlank = true;
+        return true;
+    }
+
+    // A line back out of a list item's indentation after a blank line ends it
+    if (state.afterBlank) {
+        while ((state.lists[state.lists.length - 1] ?? -1) > indent) state.lists.pop();
+    }
+    const base = state.lists[state.lists.length - 1] ?? 0;
+    const startsCode = state.afterBlank && indent >= base + 4;
+    state.afterBlank = false;
+    if (startsCode) {
+        state.indentedCode = base + 4;
+        return false;
+    }
+
+    const item = body.match(/^([ \t]*(?:[-*+]|\d{1,9}[.)]))([ \t]+|\r?\n?$)/);
+    if (item) {
+        while ((state.lists[state.lists.length - 1] ?? -1) > indent) state.lists.pop();
+        const spacing = columns(item[2]!.replace(/\r?\n$/, ''));
+        state.lists.push(columns(item[1]!) + (spacing >= 1 && spacing <= 4 ? spacing : 1));
+    }
+
+    // Fences may open at any list or blockquote depth, even on the item's own line
+    const opening = body.match(FENCE_OPEN);
+    if (!opening) return true;
+    const marker = opening[2]!;
+    const rest = body.slice(opening[0].length).trim();
+    if (marker === '$$') {
+        // `$$x$$` on one line is a complete block
+        if (!(rest.length > 0 && rest.endsWith('$$'))) state.fence = { marker, indent: columns(opening[1]!) };
+        return false;
+    }
+    // A backtick run with another backtick after it is inline code, not a fence
+    if (marker[0] === '`' && rest.includes('`')) return true;
+    state.fence = { marker, indent: columns(opening[1]!) };
+    return false;
+}
+
+export function segmentMarkdown(content: string): MarkdownSegment[] {
+    const segments: MarkdownSegment[] = [];
+
+    const frontmatter = content.match(FRONTMATTER)?.[0] ?? '';
+    pushSegment(segments, frontmatter, false);
+
+    // Lines keep their newline so the segments join back exactly
+    const lines = content.slice(frontmatter.length).split(/(?<=\n)/);
+    const state: BlockState = { fence: null, indentedCode: null, lists: [], afterBlank: true };
+    let prose = '';
+    for (const line of lines) {
+        if (scanLine(state, line)) {
+            prose += line;
+            continue;
+        }
+        segmentInline(segments, prose);
+        prose = '';
+        pushSegment(segments, line, false);
+    }
+    segmentInline(segments, prose);
+    return segments;
+}
+
+/**
+ * Rewrite only the prose of a markdown text
+ * @param content - The markdown to rewrite
+ * @param rewrite - Applied to each prose segment; literal spans pass through untouched
+ */
+export function mapProse(content: string, rewrite: (text: string) => string): string {
+    return segmentMarkdown(content)
+        .map(segment => segment.prose ? rewrite(segment.text) : segment.text)
+        .join('');
+}
@@ -0,0 +1,46 @@
+import type { LLMProvider, LLMStreamEvent } from '../providers/types';
+
+/**
+ * Decodes a streamed LLM response into provider events.
+ *
+ * Chunks may end mid-line (and mid-character), so the trailing partial line is
+ * buffered until the next chunk completes it or the stream ends.
+ */
+export class StreamDecoder {
+    private decoder = new TextDecoder();
+    private buffer = '';
+
+    constructor(private provider: LLMProvider) {}
+
+    /**
+     * Feed one chunk of the response
+     * @param chunk - Raw bytes from `fetch` or text from a child process
+     * @returns Events for every line completed by this chunk
+     */
+    public push(chunk: Uint8Array | string): LLMStreamEvent[] {
+        this.buffer += typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() ?? '';
+        return this.parseLines(lines);
+    }
+
+    /**
+     * Flush the final line once the stream has closed
+     */
+    public end(): LLMStreamEvent[] {
+        const rest = this.buffer + this.decoder.decode();
+        this.buffer = '';
+        return this.parseLines([rest]);
+    }
+
+    private parseLines(lines: string[]): LLMStreamEvent[] {
+        const events: LLMStreamEvent[] = [];
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const event = this.provider.parseStreamLine(line);
+            if (event) events.push(event);
+        }
+        return events;
+    }
+}
@@ -0,0 +1,151 @@
+import type { StreamWriter } from './editorStreamWriter';
+
+/** What to do with a reasoning model's `<think>` blocks */
+export type ThinkMode = 'drop' | 'callout' | 'fenced';
+
+export const THINK_MODE_LABELS: Record<ThinkMode, string> = {
+    drop: 'Drop them',
+    callout: 'Fold into a collapsed callout',
+    fenced: 'Write as a think-output code block'
+};
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+/**
+ * Length of the longest suffix of `text` that could be the start of `tag`,
+ * so a tag split across chunks is held back until the next chunk completes it
+ */
+function partialTagLength(text: string, tag: string): number {
+    for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+        if (tag.startsWith(text.slice(-length).toLowerCase())) return length;
+    }
+    return 0;
+}
+
+/**
+ * Separates `<think>...</think>` reasoning from the answer as it streams,
+ * whatever the chunking. Reasoning is dropped, folded into a collapsed
+ * callout or fenced, depending on the mode; `text` is the answer alone, so
+ * citation handling never sees the reasoning.
+ */
+export class ThinkStreamWriter implements StreamWriter {
+    private answer = '';
+    /** Reasoning as it was rendered into the note, kept when the answer is replaced */
+    private rendered = '';
+    private buffer = '';
+    private thinking = false;
+    /** Trailing whitespace of the reasoning, written only if more reasoning follows */
+    private heldSpace = '';
+    private atBlockStart = false;
+    private afterBlock = false;
+    /** Whatever the inner writer held before this one wrapped it, e.g. leading blank lines */
+    private readonly prefix: string;
+
+    constructor(private inner: StreamWriter, private mode: ThinkMode) {
+        this.prefix = inner.text;
+    }
+
+    public write(text: string): void {
+        this.buffer += text;
+
+        for (;;) {
+            const tag = this.thinking ? CLOSE_TAG : OPEN_TAG;
+            const index = this.buffer.toLowerCase().indexOf(tag);
+            if (index === -1) break;
+
+            this.emit(this.buffer.slice(0, index));
+            this.buffer = this.buffer.slice(index + tag.length);
+            if (this.thinking) this.close();
+            else this.open();
+        }
+
+        const held = partialTagLength(this.buffer, this.thinking ? CLOSE_TAG : OPEN_TAG);
+        this.emit(this.buffer.slice(0, this.buffer.length - held));
+        this.buffer = this.buffer.slice(this.buffer.length - held);
+    }
+
+    /**
+     * Flush text held back for a possible tag, and close a think block the
+     * stream never closed, e.g. when the request was cancelled mid-thought
+     */
+    public end(): void {
+        this.emit(this.buffer);
+        this.buffer = '';
+        if (this.thinking) this.close();
+    }
+
+    /** Replace the answer; the reasoning rendered before it stays */
+    public replaceWritten(text: string): void {
+        this.answer = text;
+        this.inner.replaceWritten(this.prefix + this.rendered + text);
+    }
+
+    /**
+     * Replace the answer and its reasoning, e.g. to put back the text a
+     * rejected rewrite replaced
+     */
+    public replaceAll(text: string): void {
+        this.answer = text;
+        this.rendered = '';
+        this.inner.replaceWritten(this.prefix + text);
+    }
+
+    /** The answer written so far, without reasoning */
+    public get text(): string {
+        return this.answer;
+    }
+
+    private open(): void {
+        this.thinking = true;
+        this.atBlockStart = true;
+        this.heldSpace = '';
+        if (this.mode === 'callout') this.render('> [!think]- Reasoning\n> ');
+        else if (this.mode === 'fenced') this.render('```think-output\n');
+    }
+
+    private close(): void {
+        this.thinking = false;
+        this.afterBlock = true;
+        this.heldSpace = '';
+        if (this.mode === 'callout') this.render('\n\n');
+        else if (this.mode === 'fenced') this.render('\n```\n\n');
+    }
+
+    private emit(text: string): void {
+        if (!text) return;
+
+        if (!this.thinking) {
+            // Models pad the answer after a think block with blank lines
+            if (this.afterBlock) {
+                text = text.replace(/^\s+/, '');
+                if (!text) return;
+                this.afterBlock = false;
+            }
+            this.answer += text;
+            this.inner.write(text);
+            return;
+        }
+
+        if (this.mode === 'drop') return;
+        if (this.atBlockStart) {
+            text = text.replace(/^\s+/, '');
+            if (!text) return;
+            this.atBlockStart = false;
+        }
+
+        // Trailing whitespace waits until more reasoning follows, so the block doesn't end in blank lines
+        text = this.heldSpace + text;
+        const trailing = text.match(/\s*$/)![0];
+        this.heldSpace = trailing;
+        text = text.slice(0, text.length - trailing.length);
+        if (!text) return;
+
+        this.render(this.mode === 'callout' ? text.replace(/\n/g, '\n> ') : text);
+    }
+
+    private render(text: string): void {
+        this.rendered += text;
+        this.inner.write(text);
+    }
+}
@@ -0,0 +1,62 @@
+import type { TFile, Vault } from 'obsidian';
+import type { StreamWriter } from './editorStreamWriter';
+
+/**
+ * Streams text into a note that isn't open in an editor.
+ *
+ * The note is rewritten as `prefix` plus everything written so far, at most
+ * once per interval, so a long answer doesn't hit the disk on every chunk.
+ * Edits made to the note while it streams are overwritten.
+ */
+export class VaultStreamWriter implements StreamWriter {
+    private written = '';
+    private timer: number | null = null;
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(
+        private vault: Vault,
+        private file: TFile,
+        private prefix: string,
+        private intervalMs = 1000
+    ) {}
+
+    public write(text: string): void {
+        if (!text) return;
+        this.written += text;
+        this.schedule();
+    }
+
+    public replaceWritten(text: string): void {
+        this.written = text;
+        this.schedule();
+    }
+
+    public get text(): string {
+        return this.written;
+    }
+
+    /**
+     * Write everything streamed so far to the note
+     */
+    public async flush(): Promise<void> {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        const content = this.prefix + this.written;
+        this.saving = this.saving
+            .then(() => this.vault.process(this.file, () => content))
+            .then(() => undefined, (error: unknown) => {
+                console.error(`Failed to write ${this.file.path}:`, error);
+            });
+        await this.saving;
+    }
+
+    private schedule(): void {
+        if (this.timer !== null) return;
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            void this.flush();
+        }, this.intervalMs);
+    }
+}
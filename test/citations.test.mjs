@@ -0,0 +1,53 @@
+// Golden tests for citation conversion: each `<name>.before.md` in
+// fixtures/citations must convert to its `<name>.after.md`.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import esbuild from 'esbuild';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const fixtures = join(here, 'fixtures', 'citations');
+
+// The registry imports `obsidian` at runtime, which only exists inside the app
+const stubObsidian = {
+  name: 'stub-obsidian',
+  setup(build) {
+    build.onResolve({ filter: /^obsidian$/ }, () => ({ path: 'obsidian', namespace: 'stub' }));
+    build.onLoad({ filter: /.*/, namespace: 'stub' }, () => ({ contents: 'export class TFile {}' }));
+  }
+};
+
+const bundle = await esbuild.build({
+  entryPoints: [join(here, '..', 'src', 'services', 'citationService.ts')],
+  bundle: true,
+  platform: 'node',
+  format: 'esm',
+  write: false,
+  logLevel: 'silent',
+  plugins: [stubObsidian]
+});
+const { CitationService } = await import(
+  `data:text/javascript;base64,${Buffer.from(bundle.outputFiles[0].text).toString('base64')}`
+);
+
+/** A service whose IDs count up, so the expected output can be written down */
+function countingService() {
+  const service = new CitationService();
+  let next = 0;
+  service.generateHexId = () => `c${String(++next).padStart(5, '0')}`;
+  return service;
+}
+
+const names = readdirSync(fixtures)
+  .filter(file => file.endsWith('.before.md'))
+  .map(file => file.slice(0, -'.before.md'.length));
+
+for (const name of names) {
+  test(`convertCitations: ${name}`, () => {
+    const before = readFileSync(join(fixtures, `${name}.before.md`), 'utf8');
+    const after = readFileSync(join(fixtures, `${name}.after.md`), 'utf8');
+    assert.equal(countingService().convertCitations(before).updatedContent, after);
+  });
+}